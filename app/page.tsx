@@ -7,22 +7,30 @@
 
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useMemo } from 'react';
 import { ethers } from 'ethers';
 import { MarketHeader } from '@/components/MarketHeader';
 import { PredictionOrderbook } from '@/components/PredictionOrderbook';
 import { PredictionOrderForm } from '@/components/PredictionOrderForm';
 import { RecentTrades } from '@/components/RecentTrades';
 import { MarketLifecycle } from '@/components/MarketLifecycle';
+import { CompleteSets } from '@/components/CompleteSets';
+import { PositionsPanel } from '@/components/PositionsPanel';
 import {
     matcher,
     stateManager,
     createNitroliteClient,
+    getFillTotals,
+    lmsrSubsidy,
+    priceToDecimal,
+    USDC_PRECISION,
+    QUANTITY_PRECISION,
+    LOT_SIZE,
     type PredictionMarketState,
     type OrderRequest,
     type UserBalance,
-    type OrderbookDisplay,
     type Outcome,
+    type PositionMark,
 } from '@/lib/prediction';
 
 export default function PredictionMarketPage() {
@@ -33,9 +41,22 @@ export default function PredictionMarketPage() {
 
     // Market state
     const [state, setState] = useState<PredictionMarketState | null>(null);
-    const [orderbookDisplay, setOrderbookDisplay] = useState<OrderbookDisplay | null>(null);
+    const [bookOutcome, setBookOutcome] = useState<Outcome | null>(null);
     const [balance, setBalance] = useState<UserBalance | null>(null);
 
+    // Orderbook of the selected outcome (the first one until another is picked)
+    const orderbookDisplay = useMemo(
+        () => (state ? matcher.getOrderbookDisplay(state, bookOutcome ?? state.outcomes[0]) : null),
+        [state, bookOutcome]
+    );
+
+    // The user's positions, marked to the last trade price or the book mid
+    const [positionMark, setPositionMark] = useState<PositionMark>('LAST_PRICE');
+    const positions = useMemo(
+        () => (state && address ? stateManager.getPositions(positionMark) : []),
+        [state, address, positionMark]
+    );
+
     // Connection state
     const [clearNodeStatus, setClearNodeStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected');
 
@@ -50,16 +71,14 @@ export default function PredictionMarketPage() {
     useEffect(() => {
         const currentState = stateManager.getState();
         setState(currentState);
-        setOrderbookDisplay(matcher.getOrderbookDisplay(currentState));
 
         // Subscribe to state changes
         const unsubscribe = stateManager.subscribe((newState) => {
             setState(newState);
-            setOrderbookDisplay(matcher.getOrderbookDisplay(newState));
             setBalance(stateManager.getUserBalance());
             setMetrics(prev => ({
                 ...prev,
-                ordersProcessed: newState.fills.length,
+                ordersProcessed: getFillTotals(newState).count,
                 lastUpdateTime: newState.timestamp,
             }));
         });
@@ -67,6 +86,20 @@ export default function PredictionMarketPage() {
         return () => unsubscribe();
     }, []);
 
+    // Sweep expired GTD orders out of the book
+    useEffect(() => {
+        const interval = setInterval(() => stateManager.sweepExpiredOrders(), 1000);
+
+        return () => clearInterval(interval);
+    }, []);
+
+    // Clear due batch auctions (batch auction markets only)
+    useEffect(() => {
+        const interval = setInterval(() => stateManager.runBatchAuction(), 100);
+
+        return () => clearInterval(interval);
+    }, []);
+
     // Connect wallet
     const connectWallet = async () => {
         if (typeof window === 'undefined' || !window.ethereum) {
@@ -91,7 +124,7 @@ export default function PredictionMarketPage() {
             await stateManager.initialize(signer);
 
             // Deposit initial USDC (demo: 1000 USDC)
-            stateManager.depositUSDC(1000);
+            stateManager.depositUSDC(1000 * USDC_PRECISION);
             setBalance(stateManager.getUserBalance());
 
             // Try to connect to Yellow Nitrolite (may fail in demo mode)
@@ -107,6 +140,14 @@ export default function PredictionMarketPage() {
                     setClearNodeStatus('connected');
                 });
 
+                // Pull resting orders if the channel connection drops
+                nitrolite.setCancelOnDisconnect(() => {
+                    const cancelled = stateManager.cancelAllOrders();
+                    if (cancelled.length > 0) {
+                        console.log(`Cancelled ${cancelled.length} orders on disconnect`);
+                    }
+                });
+
                 nitrolite.onError((error) => {
                     console.warn('Nitrolite connection failed (demo mode):', error);
                     setClearNodeStatus('disconnected');
@@ -143,19 +184,13 @@ export default function PredictionMarketPage() {
     const handleSubmitOrder = useCallback(async (request: OrderRequest) => {
         const startTime = performance.now();
 
-        // Get current state
-        const currentState = stateManager.getState();
-
-        // Run local matcher
-        const result = matcher.processOrder(currentState, request);
+        // Run local matcher (journaled, so the state can be replayed)
+        const result = stateManager.placeOrder(request);
 
         if (!result.success) {
             throw new Error(result.error);
         }
 
-        // Update local state
-        stateManager.updateState(result.newState);
-
         // Calculate latency
         const latency = performance.now() - startTime;
         setMetrics(prev => ({
@@ -180,6 +215,17 @@ export default function PredictionMarketPage() {
         }
     }, [clearNodeStatus]);
 
+    // Complete set handler (throws so the panel can show the error)
+    const handleCompleteSets = (action: 'MINT' | 'REDEEM', amount: number) => {
+        if (!address) return;
+        const result = action === 'MINT'
+            ? stateManager.mintCompleteSet(address, amount)
+            : stateManager.redeemCompleteSet(address, amount);
+        if (!result.success) {
+            throw new Error(result.error);
+        }
+    };
+
     // Market lifecycle handlers
     const handleLockMarket = () => {
         try {
@@ -191,10 +237,10 @@ export default function PredictionMarketPage() {
         }
     };
 
-    const handleResolveMarket = (outcome: Outcome) => {
+    const handleResolveMarket = (resolution: Outcome | number) => {
         try {
-            stateManager.resolveMarket(outcome);
-            console.log(`Market resolved: ${outcome}`);
+            stateManager.resolveMarket(resolution);
+            console.log(`Market resolved: ${resolution}`);
         } catch (error) {
             console.error('Failed to resolve market:', error);
             alert(error instanceof Error ? error.message : 'Failed to resolve market');
@@ -214,7 +260,7 @@ export default function PredictionMarketPage() {
     // Price click handler
     const handlePriceClick = (price: number, side: 'BUY' | 'SELL') => {
         // Could pre-fill the order form with this price
-        console.log(`Clicked ${side} at ${(price * 100).toFixed(1)}¢`);
+        console.log(`Clicked ${side} at ${(priceToDecimal(price) * 100).toFixed(1)}¢`);
     };
 
     // Export force exit proof
@@ -243,8 +289,8 @@ export default function PredictionMarketPage() {
                 outcome: 'YES',
                 side: 'BUY',
                 type: 'LIMIT',
-                price: 0.30 + i * 0.03,
-                quantity: 10 + Math.random() * 20,
+                price: 300_000 + i * 30_000,
+                quantity: (1_000 + Math.floor(Math.random() * 2_000)) * LOT_SIZE,
             });
         }
 
@@ -255,30 +301,36 @@ export default function PredictionMarketPage() {
                 outcome: 'YES',
                 side: 'SELL',
                 type: 'LIMIT',
-                price: 0.55 + i * 0.03,
-                quantity: 10 + Math.random() * 20,
+                price: 550_000 + i * 30_000,
+                quantity: (1_000 + Math.floor(Math.random() * 2_000)) * LOT_SIZE,
             });
         }
 
-        // Initialize demo users with balance
-        let currentState = stateManager.getState();
+        // Initialize demo users with 1000 USDC and 100 shares of every outcome
+        // (minted as complete sets at 1 USDC each)
         for (let i = 0; i < 10; i++) {
-            currentState = {
-                ...currentState,
-                balances: {
-                    ...currentState.balances,
-                    [`demo-user-${i}`]: { usdc: 1000, yes: 100, no: 100 },
-                },
-            };
+            const userId = `demo-user-${i}`;
+            stateManager.deposit(userId, 1100 * USDC_PRECISION);
+            stateManager.mintCompleteSet(userId, 100 * QUANTITY_PRECISION);
         }
-        stateManager.updateState(currentState);
 
         // Process each order
         for (const order of demoOrders) {
-            const result = matcher.processOrder(stateManager.getState(), order);
-            if (result.success) {
-                stateManager.updateState(result.newState);
-            }
+            stateManager.placeOrder(order);
+        }
+    };
+
+    // Demo: fund the operator and start an LMSR market maker as backstop liquidity
+    const startDemoAmm = () => {
+        const liquidity = 100 * QUANTITY_PRECISION;
+        const { config, outcomes } = stateManager.getState();
+
+        try {
+            stateManager.deposit(config.fees.operatorId, lmsrSubsidy(liquidity, outcomes.length));
+            stateManager.startAmm(liquidity);
+        } catch (error) {
+            console.error('Failed to start AMM:', error);
+            alert(error instanceof Error ? error.message : 'Failed to start AMM');
         }
     };
 
@@ -370,8 +422,10 @@ export default function PredictionMarketPage() {
                         {state && (
                             <MarketHeader
                                 question={state.question}
-                                lastYesPrice={state.lastYesPrice}
-                                totalVolume={state.fills.reduce((sum, f) => sum + f.price * f.quantity, 0)}
+                                outcomes={state.outcomes}
+                                lastPrices={state.lastPrices}
+                                scalarRange={state.scalarRange}
+                                totalVolume={getFillTotals(state).notional}
                             />
                         )}
 
@@ -383,6 +437,14 @@ export default function PredictionMarketPage() {
                             >
                                 🎮 Seed Demo Orders
                             </button>
+                            {state && !state.amm && state.config.matchingMode === 'CONTINUOUS' && (
+                                <button
+                                    onClick={startDemoAmm}
+                                    className="px-4 py-2 bg-teal-500 hover:bg-teal-600 text-white text-sm font-medium rounded-lg transition-colors"
+                                >
+                                    🤖 Start AMM
+                                </button>
+                            )}
                             <button
                                 onClick={handleExportProof}
                                 className="px-4 py-2 bg-zinc-200 dark:bg-zinc-700 hover:bg-zinc-300 dark:hover:bg-zinc-600 text-zinc-700 dark:text-zinc-300 text-sm font-medium rounded-lg transition-colors"
@@ -411,20 +473,40 @@ export default function PredictionMarketPage() {
                                 {orderbookDisplay && state && (
                                     <PredictionOrderbook
                                         display={orderbookDisplay}
-                                        lastYesPrice={state.lastYesPrice}
+                                        outcomes={state.outcomes}
+                                        lastPrices={state.lastPrices}
+                                        onOutcomeChange={setBookOutcome}
                                         onPriceClick={handlePriceClick}
                                     />
                                 )}
                             </div>
 
                             {/* Order Form */}
-                            <div>
-                                <PredictionOrderForm
-                                    balance={balance}
-                                    lastYesPrice={state?.lastYesPrice || null}
-                                    onSubmitOrder={handleSubmitOrder}
-                                    userId={address}
-                                />
+                            <div className="space-y-6">
+                                {state && (
+                                    <PredictionOrderForm
+                                        balance={balance}
+                                        outcomes={state.outcomes}
+                                        lastPrices={state.lastPrices}
+                                        onSubmitOrder={handleSubmitOrder}
+                                        userId={address}
+                                    />
+                                )}
+                                {state && (
+                                    <PositionsPanel
+                                        positions={positions}
+                                        mark={positionMark}
+                                        onMarkChange={setPositionMark}
+                                    />
+                                )}
+                                {state && (
+                                    <CompleteSets
+                                        balance={balance}
+                                        outcomes={state.outcomes}
+                                        onMint={(amount) => handleCompleteSets('MINT', amount)}
+                                        onRedeem={(amount) => handleCompleteSets('REDEEM', amount)}
+                                    />
+                                )}
                             </div>
 
                             {/* Market Lifecycle */}
@@ -432,7 +514,10 @@ export default function PredictionMarketPage() {
                                 {state && (
                                     <MarketLifecycle
                                         status={state.status}
+                                        outcomes={state.outcomes}
+                                        scalarRange={state.scalarRange}
                                         resolutionOutcome={state.resolutionOutcome}
+                                        resolutionValue={state.resolutionValue}
                                         resolutionTimestamp={state.resolutionTimestamp}
                                         onLockMarket={handleLockMarket}
                                         onResolveMarket={handleResolveMarket}
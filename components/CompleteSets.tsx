@@ -0,0 +1,96 @@
+/**
+ * Complete Sets Component
+ *
+ * Mint complete sets (one share of every outcome) from USDC, or redeem them
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { Outcome, UserBalance } from '@/lib/prediction/types';
+import { decimalToQuantity, quantityToDecimal, usdcToDecimal } from '@/lib/prediction/fixed-point';
+
+interface CompleteSetsProps {
+    balance: UserBalance | null;
+    outcomes: Outcome[];
+    /** Amounts in micro-shares */
+    onMint: (amount: number) => void;
+    onRedeem: (amount: number) => void;
+}
+
+export function CompleteSets({ balance, outcomes, onMint, onRedeem }: CompleteSetsProps) {
+    const [amount, setAmount] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    // Sets the user could redeem: the smallest available holding of any outcome
+    const redeemable = balance
+        ? Math.min(...outcomes.map(o => (balance.shares[o] ?? 0) - (balance.lockedShares[o] ?? 0)))
+        : 0;
+
+    const submit = (action: (amount: number) => void) => {
+        setError(null);
+        const value = parseFloat(amount);
+        if (isNaN(value) || value <= 0) {
+            setError('Enter a positive number of sets');
+            return;
+        }
+        try {
+            action(decimalToQuantity(value));
+            setAmount('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed');
+        }
+    };
+
+    return (
+        <div className="w-full bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 overflow-hidden">
+            <div className="px-4 py-3 border-b border-zinc-200 dark:border-zinc-800">
+                <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+                    Complete Sets
+                </h2>
+                <p className="text-xs text-zinc-500 mt-1">
+                    1 USDC = 1 {outcomes.join(' + 1 ')}
+                </p>
+            </div>
+
+            <div className="p-4 space-y-3">
+                <input
+                    type="number"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    placeholder="Sets"
+                    min="0.01"
+                    step="0.01"
+                    className="w-full px-4 py-2 bg-zinc-100 dark:bg-zinc-800 rounded-lg text-zinc-900 dark:text-zinc-50 placeholder-zinc-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <div className="grid grid-cols-2 gap-2">
+                    <button
+                        type="button"
+                        onClick={() => submit(onMint)}
+                        disabled={!balance}
+                        className="py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+                    >
+                        Mint
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => submit(onRedeem)}
+                        disabled={!balance || redeemable <= 0}
+                        className="py-2 bg-zinc-200 dark:bg-zinc-700 hover:bg-zinc-300 dark:hover:bg-zinc-600 disabled:opacity-50 text-zinc-700 dark:text-zinc-300 text-sm font-medium rounded-lg transition-colors"
+                    >
+                        Redeem
+                    </button>
+                </div>
+                {balance && (
+                    <div className="flex justify-between text-xs text-zinc-500">
+                        <span>Available: ${usdcToDecimal(balance.usdc - balance.lockedUsdc).toFixed(2)}</span>
+                        <span>Redeemable: {quantityToDecimal(Math.max(redeemable, 0)).toFixed(2)} sets</span>
+                    </div>
+                )}
+                {error && (
+                    <div className="text-xs text-red-600 dark:text-red-400">{error}</div>
+                )}
+            </div>
+        </div>
+    );
+}
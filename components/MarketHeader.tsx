@@ -6,19 +6,64 @@
 
 'use client';
 
+import type { Outcome, ScalarRange } from '@/lib/prediction/types';
+import { priceToDecimal, usdcToDecimal } from '@/lib/prediction/fixed-point';
+
+// Bar and dot colours, in outcome order
+const OUTCOME_COLORS = [
+    { bar: 'bg-green-500', text: 'text-green-600 dark:text-green-400' },
+    { bar: 'bg-red-500', text: 'text-red-600 dark:text-red-400' },
+    { bar: 'bg-blue-500', text: 'text-blue-600 dark:text-blue-400' },
+    { bar: 'bg-purple-500', text: 'text-purple-600 dark:text-purple-400' },
+    { bar: 'bg-amber-500', text: 'text-amber-600 dark:text-amber-400' },
+];
+
+const outcomeColor = (index: number) => OUTCOME_COLORS[index % OUTCOME_COLORS.length];
+
+/**
+ * Implied probability (percent) of each outcome from the last traded prices
+ * A two-outcome market reads both sides off the first outcome's price; in a
+ * larger market, outcomes that have not traded share what is left evenly.
+ */
+function impliedPercents(outcomes: Outcome[], lastPrices: Record<Outcome, number | null>): number[] {
+    if (outcomes.length === 2) {
+        const first = lastPrices[outcomes[0]];
+        const percent = first !== null && first !== undefined ? priceToDecimal(first) * 100 : 50;
+        return [percent, 100 - percent];
+    }
+    const known = outcomes.map(o => lastPrices[o] ?? null);
+    const knownTotal = known.reduce<number>((sum, price) => sum + (price !== null ? priceToDecimal(price) * 100 : 0), 0);
+    const unknownCount = known.filter(price => price === null).length;
+    const share = unknownCount > 0 ? Math.max(0, 100 - knownTotal) / unknownCount : 0;
+    return known.map(price => (price !== null ? priceToDecimal(price) * 100 : share));
+}
+
 interface MarketHeaderProps {
     question: string;
-    lastYesPrice: number | null;
+    outcomes: Outcome[];
+    /** Last traded price per outcome (micro-USDC) */
+    lastPrices: Record<Outcome, number | null>;
+    /** Payout range (scalar markets only) */
+    scalarRange?: ScalarRange | null;
+    /** Total traded volume (micro-USDC) */
     totalVolume?: number;
 }
 
 export function MarketHeader({
     question,
-    lastYesPrice,
+    outcomes,
+    lastPrices,
+    scalarRange = null,
     totalVolume = 0,
 }: MarketHeaderProps) {
-    const yesPercent = lastYesPrice !== null ? lastYesPrice * 100 : 50;
-    const noPercent = 100 - yesPercent;
+    const percents = impliedPercents(outcomes, lastPrices);
+    const isBinary = outcomes.length === 2;
+    const marketKind = scalarRange ? 'Scalar' : isBinary ? 'Binary' : 'Categorical';
+
+    // Value the LONG price implies, read linearly off the range
+    const impliedValue = scalarRange
+        ? scalarRange.lower + (percents[0] / 100) * (scalarRange.upper - scalarRange.lower)
+        : null;
 
     return (
         <div className="w-full bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 overflow-hidden">
@@ -28,57 +73,56 @@ export function MarketHeader({
                     {question}
                 </h1>
                 <p className="text-sm text-zinc-500 mt-1">
-                    Binary Prediction Market • Total Volume: ${totalVolume.toFixed(2)}
+                    {marketKind} Prediction Market • Total Volume: ${usdcToDecimal(totalVolume).toFixed(2)}
                 </p>
             </div>
 
             {/* Probability Bar */}
             <div className="p-4">
                 {/* Labels */}
-                <div className="flex justify-between mb-2">
-                    <div className="flex items-center gap-2">
-                        <span className="w-3 h-3 rounded-full bg-green-500"></span>
-                        <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">YES</span>
-                        <span className="text-2xl font-bold text-green-600 dark:text-green-400">
-                            {yesPercent.toFixed(1)}%
-                        </span>
-                    </div>
-                    <div className="flex items-center gap-2">
-                        <span className="text-2xl font-bold text-red-600 dark:text-red-400">
-                            {noPercent.toFixed(1)}%
-                        </span>
-                        <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">NO</span>
-                        <span className="w-3 h-3 rounded-full bg-red-500"></span>
-                    </div>
+                <div className="flex flex-wrap justify-between gap-2 mb-2">
+                    {outcomes.map((outcome, index) => (
+                        <div key={outcome} className="flex items-center gap-2">
+                            <span className={`w-3 h-3 rounded-full ${outcomeColor(index).bar}`}></span>
+                            <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">{outcome}</span>
+                            <span className={`text-2xl font-bold ${outcomeColor(index).text}`}>
+                                {percents[index].toFixed(1)}%
+                            </span>
+                        </div>
+                    ))}
                 </div>
 
                 {/* Progress Bar */}
-                <div className="h-8 bg-red-500 rounded-full overflow-hidden flex">
-                    <div
-                        className="h-full bg-green-500 transition-all duration-500 ease-out flex items-center justify-end pr-2"
-                        style={{ width: `${yesPercent}%` }}
-                    >
-                        {yesPercent >= 15 && (
-                            <span className="text-xs font-medium text-white">
-                                {yesPercent.toFixed(0)}%
-                            </span>
-                        )}
-                    </div>
-                    <div
-                        className="h-full flex items-center justify-start pl-2"
-                        style={{ width: `${noPercent}%` }}
-                    >
-                        {noPercent >= 15 && (
-                            <span className="text-xs font-medium text-white">
-                                {noPercent.toFixed(0)}%
-                            </span>
-                        )}
-                    </div>
+                <div className="h-8 bg-zinc-200 dark:bg-zinc-800 rounded-full overflow-hidden flex">
+                    {outcomes.map((outcome, index) => (
+                        <div
+                            key={outcome}
+                            className={`h-full ${outcomeColor(index).bar} transition-all duration-500 ease-out flex items-center justify-center`}
+                            style={{ width: `${percents[index]}%` }}
+                        >
+                            {percents[index] >= 15 && (
+                                <span className="text-xs font-medium text-white">
+                                    {percents[index].toFixed(0)}%
+                                </span>
+                            )}
+                        </div>
+                    ))}
                 </div>
 
-                {/* Binary Constraint Note */}
+                {/* Scalar Range */}
+                {scalarRange && impliedValue !== null && (
+                    <div className="mt-3 flex justify-between text-xs text-zinc-500">
+                        <span>Lower: {scalarRange.lower}</span>
+                        <span className="font-medium text-zinc-700 dark:text-zinc-300">
+                            Implied value: {impliedValue.toFixed(2)}
+                        </span>
+                        <span>Upper: {scalarRange.upper}</span>
+                    </div>
+                )}
+
+                {/* Complete Set Constraint Note */}
                 <div className="mt-3 text-center text-xs text-zinc-400">
-                    Binary constraint: YES price + NO price = $1.00 USDC
+                    {isBinary ? 'Binary' : 'Complete set'} constraint: {outcomes.join(' + ')} prices = $1.00 USDC
                 </div>
             </div>
         </div>
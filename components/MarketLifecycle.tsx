@@ -6,14 +6,19 @@
 
 'use client';
 
-import { type MarketStatus, type Outcome } from '@/lib/prediction/types';
+import { useState } from 'react';
+import { type MarketStatus, type Outcome, type ScalarRange } from '@/lib/prediction/types';
+import { usdcToDecimal } from '@/lib/prediction/fixed-point';
 
 interface MarketLifecycleProps {
     status: MarketStatus;
+    outcomes: Outcome[];
+    scalarRange: ScalarRange | null;
     resolutionOutcome?: Outcome;
+    resolutionValue?: number;
     resolutionTimestamp?: number;
     onLockMarket: () => void;
-    onResolveMarket: (outcome: Outcome) => void;
+    onResolveMarket: (resolution: Outcome | number) => void;
     onSettleMarket: () => void;
     settlementAmount?: number;
     isAdmin?: boolean;
@@ -21,7 +26,10 @@ interface MarketLifecycleProps {
 
 export function MarketLifecycle({
     status,
+    outcomes,
+    scalarRange,
     resolutionOutcome,
+    resolutionValue,
     resolutionTimestamp,
     onLockMarket,
     onResolveMarket,
@@ -29,6 +37,10 @@ export function MarketLifecycle({
     settlementAmount,
     isAdmin = true, // For demo, everyone is admin
 }: MarketLifecycleProps) {
+    const [scalarValue, setScalarValue] = useState('');
+    const parsedScalarValue = Number(scalarValue);
+    const isScalarValueValid = scalarValue.trim() !== '' && Number.isSafeInteger(parsedScalarValue);
+
     const getStatusBadge = () => {
         const badges = {
             ACTIVE: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400',
@@ -61,13 +73,13 @@ export function MarketLifecycle({
             </div>
 
             {/* Resolution Info */}
-            {resolutionOutcome && (
+            {(resolutionOutcome || resolutionValue !== undefined) && (
                 <div className="mb-4 p-3 bg-zinc-50 dark:bg-zinc-800 rounded-lg">
                     <div className="text-sm text-zinc-600 dark:text-zinc-400">
                         Resolved Outcome:
                     </div>
                     <div className="text-xl font-bold text-zinc-900 dark:text-zinc-50">
-                        {resolutionOutcome === 'YES' ? '✅ YES' : '❌ NO'}
+                        🏆 {resolutionOutcome ?? resolutionValue}
                     </div>
                     {resolutionTimestamp && (
                         <div className="text-xs text-zinc-500 mt-1">
@@ -84,7 +96,7 @@ export function MarketLifecycle({
                         Your Settlement:
                     </div>
                     <div className="text-2xl font-bold text-green-700 dark:text-green-300">
-                        {settlementAmount.toFixed(2)} USDC
+                        {usdcToDecimal(settlementAmount).toFixed(2)} USDC
                     </div>
                 </div>
             )}
@@ -110,20 +122,37 @@ export function MarketLifecycle({
                     {status === 'LOCKED' && (
                         <div className="space-y-2">
                             <div className="text-sm text-zinc-600 dark:text-zinc-400 mb-2">
-                                Choose Winning Outcome:
+                                {scalarRange
+                                    ? `Enter Resolution Value (${scalarRange.lower} - ${scalarRange.upper}):`
+                                    : 'Choose Winning Outcome:'}
                             </div>
-                            <button
-                                onClick={() => onResolveMarket('YES')}
-                                className="w-full px-4 py-2 bg-green-500 hover:bg-green-600 text-white font-medium rounded-lg transition-colors"
-                            >
-                                ✅ Resolve: YES
-                            </button>
-                            <button
-                                onClick={() => onResolveMarket('NO')}
-                                className="w-full px-4 py-2 bg-red-500 hover:bg-red-600 text-white font-medium rounded-lg transition-colors"
-                            >
-                                ❌ Resolve: NO
-                            </button>
+                            {scalarRange && (
+                                <div className="flex gap-2">
+                                    <input
+                                        type="number"
+                                        value={scalarValue}
+                                        onChange={(e) => setScalarValue(e.target.value)}
+                                        step="1"
+                                        className="flex-1 px-3 py-2 bg-zinc-100 dark:bg-zinc-800 rounded-lg text-zinc-900 dark:text-zinc-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                    <button
+                                        onClick={() => onResolveMarket(parsedScalarValue)}
+                                        disabled={!isScalarValueValid}
+                                        className="px-4 py-2 bg-zinc-700 hover:bg-zinc-800 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+                                    >
+                                        Resolve
+                                    </button>
+                                </div>
+                            )}
+                            {!scalarRange && outcomes.map(outcome => (
+                                <button
+                                    key={outcome}
+                                    onClick={() => onResolveMarket(outcome)}
+                                    className="w-full px-4 py-2 bg-zinc-700 hover:bg-zinc-800 text-white font-medium rounded-lg transition-colors"
+                                >
+                                    Resolve: {outcome}
+                                </button>
+                            ))}
                         </div>
                     )}
 
@@ -0,0 +1,96 @@
+/**
+ * Positions Panel Component
+ *
+ * The user's position in each outcome they traded: open quantity, entry
+ * price and realized / unrealized PnL
+ */
+
+'use client';
+
+import type { Position, PositionMark } from '@/lib/prediction/types';
+import { priceToDecimal, quantityToDecimal, usdcToDecimal } from '@/lib/prediction/fixed-point';
+
+interface PositionsPanelProps {
+    positions: Position[];
+    mark: PositionMark;
+    onMarkChange: (mark: PositionMark) => void;
+}
+
+const MARKS: { mark: PositionMark; label: string }[] = [
+    { mark: 'LAST_PRICE', label: 'Last' },
+    { mark: 'MID', label: 'Mid' },
+];
+
+const formatPnl = (amount: number): string =>
+    `${amount < 0 ? '-' : '+'}$${Math.abs(usdcToDecimal(amount)).toFixed(2)}`;
+
+const pnlClass = (amount: number): string =>
+    amount < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400';
+
+export function PositionsPanel({ positions, mark, onMarkChange }: PositionsPanelProps) {
+    const realized = positions.reduce((sum, p) => sum + p.realizedPnl, 0);
+    const unrealized = positions.reduce((sum, p) => sum + p.unrealizedPnl, 0);
+
+    return (
+        <div className="w-full bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 overflow-hidden">
+            <div className="px-4 py-3 border-b border-zinc-200 dark:border-zinc-800 flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+                    Positions
+                </h2>
+                <div className="flex gap-1 text-xs">
+                    {MARKS.map(({ mark: option, label }) => (
+                        <button
+                            key={option}
+                            type="button"
+                            onClick={() => onMarkChange(option)}
+                            className={`px-2 py-1 rounded ${option === mark ? 'bg-blue-500 text-white' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="p-4">
+                {positions.length === 0 ? (
+                    <div className="text-sm text-zinc-500 text-center py-2">No trades yet</div>
+                ) : (
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-zinc-500">
+                                <th className="text-left font-medium pb-2">Outcome</th>
+                                <th className="text-right font-medium pb-2">Qty</th>
+                                <th className="text-right font-medium pb-2">Avg</th>
+                                <th className="text-right font-medium pb-2">Mark</th>
+                                <th className="text-right font-medium pb-2">Realized</th>
+                                <th className="text-right font-medium pb-2">Unrealized</th>
+                            </tr>
+                        </thead>
+                        <tbody className="font-mono text-zinc-900 dark:text-zinc-50">
+                            {positions.map(p => (
+                                <tr key={p.outcome}>
+                                    <td className="py-1 font-sans">{p.outcome}</td>
+                                    <td className="py-1 text-right">{quantityToDecimal(p.quantity).toFixed(2)}</td>
+                                    <td className="py-1 text-right">
+                                        {p.quantity > 0 ? priceToDecimal(p.averagePrice).toFixed(3) : '-'}
+                                    </td>
+                                    <td className="py-1 text-right">
+                                        {p.markPrice !== null ? priceToDecimal(p.markPrice).toFixed(3) : '-'}
+                                    </td>
+                                    <td className={`py-1 text-right ${pnlClass(p.realizedPnl)}`}>{formatPnl(p.realizedPnl)}</td>
+                                    <td className={`py-1 text-right ${pnlClass(p.unrealizedPnl)}`}>{formatPnl(p.unrealizedPnl)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+                {positions.length > 0 && (
+                    <div className="flex justify-between text-xs text-zinc-500 mt-3">
+                        <span>Realized: {formatPnl(realized)}</span>
+                        <span>Unrealized: {formatPnl(unrealized)}</span>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
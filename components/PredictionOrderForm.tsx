@@ -1,41 +1,78 @@
 /**
  * Prediction Market Order Form
  * 
- * Order placement with YES/NO outcome selection and binary constraint display
+ * Order placement with outcome selection and complementary price display
  */
 
 'use client';
 
 import { useState, useMemo } from 'react';
-import type { Outcome, OrderSide, OrderType, OrderRequest, UserBalance } from '@/lib/prediction/types';
+import type { Outcome, OrderSide, OrderType, OrderRequest, TimeInForce, UserBalance } from '@/lib/prediction/types';
+import {
+    priceToDecimal,
+    decimalToPrice,
+    quantityToDecimal,
+    decimalToQuantity,
+    usdcToDecimal,
+} from '@/lib/prediction/fixed-point';
+
+// Selected-button colours: first outcome green, second red, any others blue
+const OUTCOME_STYLES = [
+    { active: 'bg-green-500 text-white', idle: 'hover:bg-green-100 dark:hover:bg-green-900/30' },
+    { active: 'bg-red-500 text-white', idle: 'hover:bg-red-100 dark:hover:bg-red-900/30' },
+    { active: 'bg-blue-500 text-white', idle: 'hover:bg-blue-100 dark:hover:bg-blue-900/30' },
+];
+
+const outcomeStyle = (index: number) => OUTCOME_STYLES[Math.min(index, OUTCOME_STYLES.length - 1)];
 
 interface PredictionOrderFormProps {
     balance: UserBalance | null;
-    lastYesPrice: number | null;
+    outcomes: Outcome[];
+    lastPrices: Record<Outcome, number | null>;
     onSubmitOrder: (request: OrderRequest) => Promise<void>;
     userId: string;
 }
 
 export function PredictionOrderForm({
     balance,
-    lastYesPrice,
+    outcomes,
+    lastPrices,
     onSubmitOrder,
     userId,
 }: PredictionOrderFormProps) {
-    const [outcome, setOutcome] = useState<Outcome>('YES');
+    const [outcome, setOutcome] = useState<Outcome>(outcomes[0]);
     const [side, setSide] = useState<OrderSide>('BUY');
     const [orderType, setOrderType] = useState<OrderType>('LIMIT');
+    const [timeInForce, setTimeInForce] = useState<TimeInForce>('GTC');
+    const [expiryMinutes, setExpiryMinutes] = useState('60');
+    const [postOnly, setPostOnly] = useState(false);
+    const [maxSlippageBps, setMaxSlippageBps] = useState('');
     const [price, setPrice] = useState('');
+    const [triggerPrice, setTriggerPrice] = useState('');
     const [quantity, setQuantity] = useState('');
+    const [displayQuantity, setDisplayQuantity] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
-    // Implied NO price
-    const impliedNoPrice = useMemo(() => {
-        if (!price || isNaN(parseFloat(price))) return null;
-        const yesPrice = parseFloat(price) / 100; // Convert from cents
-        return ((1 - yesPrice) * 100).toFixed(1);
-    }, [price]);
+    // Limit-style orders carry a price and may rest; stops also need a trigger
+    const hasLimitPrice = orderType === 'LIMIT' || orderType === 'STOP_LIMIT';
+    const isStop = orderType === 'STOP' || orderType === 'STOP_LIMIT';
+
+    // Post-only applies to orders that can rest on the book
+    const canPostOnly = orderType === 'LIMIT' && (timeInForce === 'GTC' || timeInForce === 'GTD');
+
+    // Iceberg display size applies to any limit order that can rest
+    const canIceberg = hasLimitPrice && (timeInForce === 'GTC' || timeInForce === 'GTD');
+
+    const lastPrice = lastPrices[outcome] ?? null;
+
+    // The other outcome of a two-outcome market and its implied price
+    const complement = outcomes.length === 2 ? outcomes.find(o => o !== outcome) ?? null : null;
+    const impliedComplementPrice = useMemo(() => {
+        if (!complement || !price || isNaN(parseFloat(price))) return null;
+        const outcomePrice = parseFloat(price) / 100; // Convert from cents
+        return ((1 - outcomePrice) * 100).toFixed(1);
+    }, [complement, price]);
 
     // Max quantity user can buy/sell
     const maxQuantity = useMemo(() => {
@@ -43,9 +80,9 @@ export function PredictionOrderForm({
 
         if (side === 'BUY') {
             const priceNum = parseFloat(price) / 100 || 1;
-            return Math.floor(balance.usdc / priceNum * 100) / 100;
+            return Math.floor(usdcToDecimal(balance.usdc - balance.lockedUsdc) / priceNum * 100) / 100;
         } else {
-            return outcome === 'YES' ? balance.yes : balance.no;
+            return quantityToDecimal((balance.shares[outcome] ?? 0) - (balance.lockedShares[outcome] ?? 0));
         }
     }, [balance, side, price, outcome]);
 
@@ -62,19 +99,43 @@ export function PredictionOrderForm({
         e.preventDefault();
         setError(null);
 
-        const priceNum = orderType === 'LIMIT' ? parseFloat(price) / 100 : undefined;
+        const priceNum = hasLimitPrice ? parseFloat(price) / 100 : undefined;
+        const triggerNum = isStop ? parseFloat(triggerPrice) / 100 : undefined;
         const qtyNum = parseFloat(quantity);
 
-        if (orderType === 'LIMIT' && (!priceNum || priceNum <= 0 || priceNum >= 1)) {
+        if (hasLimitPrice && (!priceNum || priceNum <= 0 || priceNum >= 1)) {
             setError('Price must be between 1¢ and 99¢');
             return;
         }
 
+        if (isStop && (!triggerNum || triggerNum <= 0 || triggerNum >= 1)) {
+            setError('Trigger price must be between 1¢ and 99¢');
+            return;
+        }
+
         if (!qtyNum || qtyNum <= 0) {
             setError('Quantity must be positive');
             return;
         }
 
+        const slippageNum = maxSlippageBps ? parseInt(maxSlippageBps, 10) : undefined;
+        if (slippageNum !== undefined && (isNaN(slippageNum) || slippageNum < 0)) {
+            setError('Max slippage must be a non-negative number of bps');
+            return;
+        }
+
+        const displayNum = canIceberg && displayQuantity ? parseFloat(displayQuantity) : undefined;
+        if (displayNum !== undefined && (isNaN(displayNum) || displayNum <= 0 || displayNum > qtyNum)) {
+            setError('Display size must be positive and no larger than the quantity');
+            return;
+        }
+
+        const expiryNum = parseFloat(expiryMinutes);
+        if (timeInForce === 'GTD' && (!expiryNum || expiryNum <= 0)) {
+            setError('Expiry must be a positive number of minutes');
+            return;
+        }
+
         setIsSubmitting(true);
 
         try {
@@ -83,15 +144,23 @@ export function PredictionOrderForm({
                 outcome,
                 side,
                 type: orderType,
-                price: priceNum,
-                quantity: qtyNum,
+                price: priceNum !== undefined ? decimalToPrice(priceNum) : undefined,
+                triggerPrice: triggerNum !== undefined ? decimalToPrice(triggerNum) : undefined,
+                quantity: decimalToQuantity(qtyNum),
+                displayQuantity: displayNum !== undefined ? decimalToQuantity(displayNum) : undefined,
+                timeInForce,
+                expiresAt: timeInForce === 'GTD' ? Date.now() + Math.round(expiryNum * 60_000) : undefined,
+                postOnly: canPostOnly && postOnly,
+                maxSlippageBps: orderType === 'MARKET' ? slippageNum : undefined,
             });
 
             // Reset form
             setQuantity('');
-            if (orderType === 'LIMIT') {
+            setDisplayQuantity('');
+            if (hasLimitPrice) {
                 setPrice('');
             }
+            setTriggerPrice('');
         } catch (err: any) {
             setError(err.message || 'Order failed');
         } finally {
@@ -118,27 +187,20 @@ export function PredictionOrderForm({
                     <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
                         Outcome
                     </label>
-                    <div className="grid grid-cols-2 gap-2">
-                        <button
-                            type="button"
-                            onClick={() => setOutcome('YES')}
-                            className={`py-3 rounded-lg font-semibold transition-colors ${outcome === 'YES'
-                                    ? 'bg-green-500 text-white'
-                                    : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400 hover:bg-green-100 dark:hover:bg-green-900/30'
-                                }`}
-                        >
-                            ✓ YES
-                        </button>
-                        <button
-                            type="button"
-                            onClick={() => setOutcome('NO')}
-                            className={`py-3 rounded-lg font-semibold transition-colors ${outcome === 'NO'
-                                    ? 'bg-red-500 text-white'
-                                    : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400 hover:bg-red-100 dark:hover:bg-red-900/30'
-                                }`}
-                        >
-                            ✗ NO
-                        </button>
+                    <div className={`grid gap-2 ${outcomes.length === 2 ? 'grid-cols-2' : 'grid-cols-3'}`}>
+                        {outcomes.map((o, index) => (
+                            <button
+                                key={o}
+                                type="button"
+                                onClick={() => setOutcome(o)}
+                                className={`py-3 rounded-lg font-semibold transition-colors ${outcome === o
+                                        ? outcomeStyle(index).active
+                                        : `bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400 ${outcomeStyle(index).idle}`
+                                    }`}
+                            >
+                                {o}
+                            </button>
+                        ))}
                     </div>
                 </div>
 
@@ -176,32 +238,109 @@ export function PredictionOrderForm({
                     <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
                         Order Type
                     </label>
-                    <div className="grid grid-cols-2 gap-2">
-                        <button
-                            type="button"
-                            onClick={() => setOrderType('LIMIT')}
-                            className={`py-2 rounded-lg text-sm font-medium transition-colors ${orderType === 'LIMIT'
-                                    ? 'bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900'
-                                    : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400'
-                                }`}
-                        >
-                            Limit
-                        </button>
-                        <button
-                            type="button"
-                            onClick={() => setOrderType('MARKET')}
-                            className={`py-2 rounded-lg text-sm font-medium transition-colors ${orderType === 'MARKET'
-                                    ? 'bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900'
-                                    : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400'
-                                }`}
-                        >
-                            Market
-                        </button>
+                    <div className="grid grid-cols-4 gap-2">
+                        {([
+                            ['LIMIT', 'Limit'],
+                            ['MARKET', 'Market'],
+                            ['STOP', 'Stop'],
+                            ['STOP_LIMIT', 'Stop Limit'],
+                        ] as const).map(([type, label]) => (
+                            <button
+                                key={type}
+                                type="button"
+                                onClick={() => {
+                                    setOrderType(type);
+                                    setTimeInForce(type === 'MARKET' || type === 'STOP' ? 'IOC' : 'GTC');
+                                }}
+                                className={`py-2 rounded-lg text-sm font-medium transition-colors ${orderType === type
+                                        ? 'bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900'
+                                        : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400'
+                                    }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Time in Force */}
+                <div>
+                    <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                        Time in Force
+                    </label>
+                    <div className="grid grid-cols-4 gap-2">
+                        {(['GTC', 'IOC', 'FOK', 'GTD'] as const).map((tif) => {
+                            const allowed = hasLimitPrice || tif === 'IOC' || tif === 'FOK';
+                            return (
+                                <button
+                                    key={tif}
+                                    type="button"
+                                    onClick={() => setTimeInForce(tif)}
+                                    disabled={!allowed}
+                                    className={`py-2 rounded-lg text-xs font-medium transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${timeInForce === tif
+                                            ? 'bg-zinc-900 dark:bg-zinc-100 text-white dark:text-zinc-900'
+                                            : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400'
+                                        }`}
+                                >
+                                    {tif}
+                                </button>
+                            );
+                        })}
                     </div>
+                    {timeInForce === 'GTD' && (
+                        <div className="mt-2 flex items-center gap-2">
+                            <input
+                                type="number"
+                                value={expiryMinutes}
+                                onChange={(e) => setExpiryMinutes(e.target.value)}
+                                min="1"
+                                step="1"
+                                className="flex-1 px-4 py-2 bg-zinc-100 dark:bg-zinc-800 rounded-lg text-zinc-900 dark:text-zinc-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <span className="text-xs text-zinc-500">minutes until expiry</span>
+                        </div>
+                    )}
+                    {canPostOnly && (
+                        <label className="mt-2 flex items-center gap-2 text-xs text-zinc-600 dark:text-zinc-400">
+                            <input
+                                type="checkbox"
+                                checked={postOnly}
+                                onChange={(e) => setPostOnly(e.target.checked)}
+                            />
+                            Post only (reject if the order would take liquidity)
+                        </label>
+                    )}
                 </div>
 
+                {/* Trigger price (for stop orders) */}
+                {isStop && (
+                    <div>
+                        <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                            Trigger Price (1¢ - 99¢)
+                        </label>
+                        <div className="relative">
+                            <input
+                                type="number"
+                                value={triggerPrice}
+                                onChange={(e) => setTriggerPrice(e.target.value)}
+                                placeholder={lastPrice ? `${(priceToDecimal(lastPrice) * 100).toFixed(0)}` : '50'}
+                                min="1"
+                                max="99"
+                                step="0.1"
+                                className="w-full px-4 py-3 bg-zinc-100 dark:bg-zinc-800 rounded-lg text-zinc-900 dark:text-zinc-50 placeholder-zinc-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <span className="absolute right-4 top-1/2 -translate-y-1/2 text-zinc-400">
+                                ¢
+                            </span>
+                        </div>
+                        <div className="mt-1 text-xs text-zinc-500">
+                            {side === 'BUY' ? 'Triggers when the last price rises to' : 'Triggers when the last price falls to'} this level
+                        </div>
+                    </div>
+                )}
+
                 {/* Price (for limit orders) */}
-                {orderType === 'LIMIT' && (
+                {hasLimitPrice && (
                     <div>
                         <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
                             Price (1¢ - 99¢)
@@ -211,7 +350,7 @@ export function PredictionOrderForm({
                                 type="number"
                                 value={price}
                                 onChange={(e) => setPrice(e.target.value)}
-                                placeholder={lastYesPrice ? `${(lastYesPrice * 100).toFixed(0)}` : '50'}
+                                placeholder={lastPrice ? `${(priceToDecimal(lastPrice) * 100).toFixed(0)}` : '50'}
                                 min="1"
                                 max="99"
                                 step="0.1"
@@ -221,14 +360,32 @@ export function PredictionOrderForm({
                                 ¢
                             </span>
                         </div>
-                        {impliedNoPrice && (
+                        {impliedComplementPrice && (
                             <div className="mt-1 text-xs text-zinc-500">
-                                Implied NO price: {impliedNoPrice}¢ (YES + NO = 100¢)
+                                Implied {complement} price: {impliedComplementPrice}¢ ({outcome} + {complement} = 100¢)
                             </div>
                         )}
                     </div>
                 )}
 
+                {/* Max slippage (for market orders) */}
+                {orderType === 'MARKET' && (
+                    <div>
+                        <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                            Max Slippage (bps, optional)
+                        </label>
+                        <input
+                            type="number"
+                            value={maxSlippageBps}
+                            onChange={(e) => setMaxSlippageBps(e.target.value)}
+                            placeholder="100"
+                            min="0"
+                            step="1"
+                            className="w-full px-4 py-3 bg-zinc-100 dark:bg-zinc-800 rounded-lg text-zinc-900 dark:text-zinc-50 placeholder-zinc-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                )}
+
                 {/* Quantity */}
                 <div>
                     <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
@@ -257,6 +414,27 @@ export function PredictionOrderForm({
                     </div>
                 </div>
 
+                {/* Display size (iceberg orders) */}
+                {canIceberg && (
+                    <div>
+                        <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                            Display Size (shares, optional)
+                        </label>
+                        <input
+                            type="number"
+                            value={displayQuantity}
+                            onChange={(e) => setDisplayQuantity(e.target.value)}
+                            placeholder="Show full size"
+                            min="0.01"
+                            step="0.01"
+                            className="w-full px-4 py-3 bg-zinc-100 dark:bg-zinc-800 rounded-lg text-zinc-900 dark:text-zinc-50 placeholder-zinc-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <div className="mt-1 text-xs text-zinc-500">
+                            Only this much is shown in the book; the rest refills as it fills
+                        </div>
+                    </div>
+                )}
+
                 {/* Order Summary */}
                 {totalValue && (
                     <div className="p-3 bg-zinc-100 dark:bg-zinc-800 rounded-lg">
@@ -303,21 +481,28 @@ export function PredictionOrderForm({
                             <div className="flex justify-between">
                                 <span>USDC Balance:</span>
                                 <span className="font-medium text-zinc-700 dark:text-zinc-300">
-                                    ${balance.usdc.toFixed(2)}
-                                </span>
-                            </div>
-                            <div className="flex justify-between">
-                                <span>YES Shares:</span>
-                                <span className="font-medium text-green-600 dark:text-green-400">
-                                    {balance.yes.toFixed(2)}
-                                </span>
-                            </div>
-                            <div className="flex justify-between">
-                                <span>NO Shares:</span>
-                                <span className="font-medium text-red-600 dark:text-red-400">
-                                    {balance.no.toFixed(2)}
+                                    ${usdcToDecimal(balance.usdc).toFixed(2)}
                                 </span>
                             </div>
+                            {(balance.lockedUsdc > 0 || outcomes.some(o => (balance.lockedShares[o] ?? 0) > 0)) && (
+                                <div className="flex justify-between">
+                                    <span>Locked in Orders:</span>
+                                    <span className="font-medium text-zinc-700 dark:text-zinc-300">
+                                        ${usdcToDecimal(balance.lockedUsdc).toFixed(2)}
+                                        {outcomes.map(o => (
+                                            <span key={o}>{' · '}{quantityToDecimal(balance.lockedShares[o] ?? 0).toFixed(2)} {o}</span>
+                                        ))}
+                                    </span>
+                                </div>
+                            )}
+                            {outcomes.map(o => (
+                                <div key={o} className="flex justify-between">
+                                    <span>{o} Shares:</span>
+                                    <span className="font-medium text-zinc-700 dark:text-zinc-300">
+                                        {quantityToDecimal(balance.shares[o] ?? 0).toFixed(2)}
+                                    </span>
+                                </div>
+                            ))}
                         </div>
                     </div>
                 )}
@@ -1,32 +1,53 @@
 /**
  * Prediction Market Orderbook Component
  * 
- * Displays YES/NO orderbook with binary constraint visualization
+ * Displays one outcome's orderbook with the complete-set constraint visualization
  */
 
 'use client';
 
 import { useMemo } from 'react';
-import type { OrderbookDisplay, PriceLevel } from '@/lib/prediction/types';
+import type { Outcome, OrderbookDisplay, PriceLevel } from '@/lib/prediction/types';
+import {
+    priceToDecimal,
+    quantityToDecimal,
+    usdcToDecimal,
+    notional,
+    complementPrice,
+} from '@/lib/prediction/fixed-point';
 
 interface PredictionOrderbookProps {
     display: OrderbookDisplay;
-    lastYesPrice: number | null;
+    outcomes: Outcome[];
+    lastPrices: Record<Outcome, number | null>;
+    onOutcomeChange?: (outcome: Outcome) => void;
     onPriceClick?: (price: number, side: 'BUY' | 'SELL') => void;
 }
 
+// Badge colours: first outcome green, second red, any others blue
+const OUTCOME_BADGES = [
+    'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400',
+    'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400',
+    'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400',
+];
+
 export function PredictionOrderbook({
     display,
-    lastYesPrice,
+    outcomes,
+    lastPrices,
+    onOutcomeChange,
     onPriceClick,
 }: PredictionOrderbookProps) {
+    const lastPrice = lastPrices[display.outcome] ?? null;
+    const complement = outcomes.length === 2 ? outcomes.find(o => o !== display.outcome) ?? null : null;
+
     const maxQuantity = useMemo(() => {
-        const allLevels = [...display.yesBids, ...display.yesAsks];
+        const allLevels = [...display.bids, ...display.asks];
         return Math.max(...allLevels.map(l => l.quantity), 1);
     }, [display]);
 
-    const formatPrice = (price: number) => (price * 100).toFixed(1) + '¢';
-    const formatQuantity = (qty: number) => qty.toFixed(2);
+    const formatPrice = (price: number) => (priceToDecimal(price) * 100).toFixed(1) + '¢';
+    const formatQuantity = (qty: number) => quantityToDecimal(qty).toFixed(2);
 
     return (
         <div className="w-full bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 overflow-hidden">
@@ -37,13 +58,18 @@ export function PredictionOrderbook({
                         Order Book
                     </h2>
                     <div className="flex items-center gap-2 text-xs">
-                        <span className="px-2 py-1 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 rounded">
-                            YES
-                        </span>
-                        <span className="text-zinc-400">+</span>
-                        <span className="px-2 py-1 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded">
-                            NO
-                        </span>
+                        {outcomes.map((outcome, index) => (
+                            <span key={outcome} className="flex items-center gap-2">
+                                {index > 0 && <span className="text-zinc-400">+</span>}
+                                <button
+                                    type="button"
+                                    onClick={() => onOutcomeChange?.(outcome)}
+                                    className={`px-2 py-1 rounded ${OUTCOME_BADGES[Math.min(index, OUTCOME_BADGES.length - 1)]} ${outcome === display.outcome ? 'ring-1 ring-current' : ''}`}
+                                >
+                                    {outcome}
+                                </button>
+                            </span>
+                        ))}
                         <span className="text-zinc-400">=</span>
                         <span className="px-2 py-1 bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 rounded">
                             $1.00
@@ -56,18 +82,18 @@ export function PredictionOrderbook({
             <div className="border-b border-zinc-200 dark:border-zinc-800">
                 <div className="px-4 py-2 bg-zinc-50 dark:bg-zinc-800/50">
                     <div className="grid grid-cols-3 text-xs text-zinc-500">
-                        <span>Price (YES)</span>
+                        <span>Price ({display.outcome})</span>
                         <span className="text-right">Quantity</span>
                         <span className="text-right">Total</span>
                     </div>
                 </div>
                 <div className="max-h-40 overflow-y-auto">
-                    {display.yesAsks.length === 0 ? (
+                    {display.asks.length === 0 ? (
                         <div className="py-4 text-center text-zinc-400 text-sm">
                             No asks
                         </div>
                     ) : (
-                        [...display.yesAsks].reverse().map((level, idx) => (
+                        [...display.asks].reverse().map((level, idx) => (
                             <PriceLevelRow
                                 key={`ask-${level.price}`}
                                 level={level}
@@ -90,27 +116,31 @@ export function PredictionOrderbook({
                 </div>
                 <div className="text-center">
                     <span className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">
-                        {lastYesPrice !== null ? formatPrice(lastYesPrice) : '-'}
+                        {lastPrice !== null ? formatPrice(lastPrice) : '-'}
                     </span>
-                    <div className="text-xs text-zinc-500">Last YES Price</div>
+                    <div className="text-xs text-zinc-500">Last {display.outcome} Price</div>
                 </div>
                 <div>
-                    <span className="text-xs text-zinc-500">Implied NO: </span>
-                    <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
-                        {lastYesPrice !== null ? formatPrice(1 - lastYesPrice) : '-'}
-                    </span>
+                    {complement && (
+                        <>
+                            <span className="text-xs text-zinc-500">Implied {complement}: </span>
+                            <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                                {lastPrice !== null ? formatPrice(complementPrice(lastPrice)) : '-'}
+                            </span>
+                        </>
+                    )}
                 </div>
             </div>
 
             {/* Bids (Buys) */}
             <div>
                 <div className="max-h-40 overflow-y-auto">
-                    {display.yesBids.length === 0 ? (
+                    {display.bids.length === 0 ? (
                         <div className="py-4 text-center text-zinc-400 text-sm">
                             No bids
                         </div>
                     ) : (
-                        display.yesBids.map((level, idx) => (
+                        display.bids.map((level, idx) => (
                             <PriceLevelRow
                                 key={`bid-${level.price}`}
                                 level={level}
@@ -126,9 +156,10 @@ export function PredictionOrderbook({
             {/* Market Stats */}
             <div className="px-4 py-2 border-t border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-800/50">
                 <div className="flex justify-between text-xs text-zinc-500">
-                    <span>Best Bid: {display.bestYesBid ? formatPrice(display.bestYesBid) : '-'}</span>
+                    <span>Best Bid: {display.bestBid ? formatPrice(display.bestBid) : '-'}</span>
                     <span>Mid: {display.midPrice ? formatPrice(display.midPrice) : '-'}</span>
-                    <span>Best Ask: {display.bestYesAsk ? formatPrice(display.bestYesAsk) : '-'}</span>
+                    {display.ammPrice !== null && <span>AMM: {formatPrice(display.ammPrice)}</span>}
+                    <span>Best Ask: {display.bestAsk ? formatPrice(display.bestAsk) : '-'}</span>
                 </div>
             </div>
         </div>
@@ -163,13 +194,13 @@ function PriceLevelRow({
 
             <div className="relative grid grid-cols-3 text-sm">
                 <span className={textColor}>
-                    {(level.price * 100).toFixed(1)}¢
+                    {(priceToDecimal(level.price) * 100).toFixed(1)}¢
                 </span>
                 <span className="text-right text-zinc-700 dark:text-zinc-300">
-                    {level.quantity.toFixed(2)}
+                    {quantityToDecimal(level.quantity).toFixed(2)}
                 </span>
                 <span className="text-right text-zinc-500">
-                    ${(level.price * level.quantity).toFixed(2)}
+                    ${usdcToDecimal(notional(level.price, level.quantity, 'DOWN')).toFixed(2)}
                 </span>
             </div>
         </div>
@@ -7,6 +7,7 @@
 'use client';
 
 import type { Fill } from '@/lib/prediction/types';
+import { priceToDecimal, quantityToDecimal } from '@/lib/prediction/fixed-point';
 
 interface RecentTradesProps {
     fills: Fill[];
@@ -54,16 +55,18 @@ export function RecentTrades({ fills, maxDisplay = 20 }: RecentTradesProps) {
                                     <span
                                         className={`px-2 py-0.5 rounded text-xs font-medium ${fill.outcome === 'YES'
                                                 ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400'
-                                                : 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400'
+                                                : fill.outcome === 'NO'
+                                                    ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400'
+                                                    : 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400'
                                             }`}
                                     >
                                         {fill.outcome}
                                     </span>
                                     <span className="text-sm font-medium text-zinc-900 dark:text-zinc-50">
-                                        {(fill.price * 100).toFixed(1)}¢
+                                        {(priceToDecimal(fill.price) * 100).toFixed(1)}¢
                                     </span>
                                     <span className="text-sm text-zinc-500">
-                                        × {fill.quantity.toFixed(2)}
+                                        × {quantityToDecimal(fill.quantity).toFixed(2)}
                                     </span>
                                 </div>
                                 <div className="text-right">
@@ -49,6 +49,7 @@ export class ClearNodeClient {
     // Event handlers
     private onConnectCallback?: () => void;
     private onDisconnectCallback?: () => void;
+    private cancelOnDisconnectHandler: (() => void) | null = null;
     private onAuthenticatedCallback?: () => void;
     private onStateConfirmedCallback?: (state: PredictionMarketState, signature: string) => void;
     private onErrorCallback?: (error: string) => void;
@@ -77,6 +78,7 @@ export class ClearNodeClient {
                     console.log('ClearNode: Disconnected');
                     this.isConnected = false;
                     this.isAuthenticated = false;
+                    this.cancelOnDisconnectHandler?.();
                     this.onDisconnectCallback?.();
                     this.attemptReconnect();
                 };
@@ -247,6 +249,14 @@ export class ClearNodeClient {
         this.onDisconnectCallback = callback;
     }
 
+    /**
+     * Cancel-on-disconnect: pull the user's resting orders when the connection drops
+     * Runs before the onDisconnect callback; pass null to turn it off
+     */
+    setCancelOnDisconnect(handler: (() => void) | null): void {
+        this.cancelOnDisconnectHandler = handler;
+    }
+
     onAuthenticated(callback: () => void): void {
         this.onAuthenticatedCallback = callback;
     }
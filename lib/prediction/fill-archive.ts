@@ -0,0 +1,87 @@
+/**
+ * Fill window and checkpoints
+ *
+ * The signed state keeps only a window of recent fills. Once it holds twice
+ * the market's fillWindow, the oldest fillWindow fills are folded into the
+ * fill checkpoint: a hash chain, keccak256(previous hash ‖ JSON of the folded
+ * fills), and running volume totals. Together with the order history, which
+ * is also kept off the state, this keeps the signed state to open orders,
+ * balances and the fill window: signing costs O(open orders + users + window)
+ * however long the market trades. Full fills live off the signed state
+ * (StateManager keeps them from FILL events) and can be checked against the
+ * checkpoint.
+ */
+
+import { ethers } from 'ethers';
+import type { Fill, FillCheckpoint, PredictionMarketState } from './types';
+import { notional } from './fixed-point';
+
+/**
+ * Checkpoint of a market that has folded no fills
+ */
+export function createFillCheckpoint(): FillCheckpoint {
+    return { count: 0, hash: ethers.ZeroHash, volume: 0, notional: 0 };
+}
+
+/**
+ * Extend a checkpoint's hash chain and totals by a chunk of fills
+ */
+export function foldFills(checkpoint: FillCheckpoint, fills: Fill[]): FillCheckpoint {
+    return {
+        count: checkpoint.count + fills.length,
+        hash: ethers.keccak256(ethers.concat([checkpoint.hash, ethers.toUtf8Bytes(JSON.stringify(fills))])),
+        volume: fills.reduce((sum, f) => sum + f.quantity, checkpoint.volume),
+        notional: fills.reduce((sum, f) => sum + notional(f.price, f.quantity, 'DOWN'), checkpoint.notional),
+    };
+}
+
+/**
+ * Append new fills to the window, folding the oldest fillWindow at a time
+ * while it holds twice that many
+ */
+export function appendFills(
+    state: PredictionMarketState,
+    fills: Fill[]
+): Pick<PredictionMarketState, 'fills' | 'fillCheckpoint'> {
+    if (fills.length === 0) {
+        return { fills: state.fills, fillCheckpoint: state.fillCheckpoint };
+    }
+    const window = state.config.fillWindow;
+    let recent = [...state.fills, ...fills];
+    let checkpoint = state.fillCheckpoint;
+    while (recent.length >= 2 * window) {
+        checkpoint = foldFills(checkpoint, recent.slice(0, window));
+        recent = recent.slice(window);
+    }
+    return { fills: recent, fillCheckpoint: checkpoint };
+}
+
+/**
+ * Count, volume (micro-shares) and notional (micro-USDC) of every fill,
+ * folded or still in the window
+ */
+export function getFillTotals(state: PredictionMarketState): Omit<FillCheckpoint, 'hash'> {
+    const { count, volume, notional: folded } = state.fillCheckpoint;
+    return {
+        count: count + state.fills.length,
+        volume: state.fills.reduce((sum, f) => sum + f.quantity, volume),
+        notional: state.fills.reduce((sum, f) => sum + notional(f.price, f.quantity, 'DOWN'), folded),
+    };
+}
+
+/**
+ * Check archived fills, oldest first, against a state's checkpoint and window
+ * The archive must hold at least every fill the state has folded
+ */
+export function verifyFillArchive(state: PredictionMarketState, archive: Fill[]): boolean {
+    const { fillCheckpoint, fills, config } = state;
+    if (archive.length < fillCheckpoint.count) {
+        return false;
+    }
+    let checkpoint = createFillCheckpoint();
+    while (checkpoint.count < fillCheckpoint.count) {
+        checkpoint = foldFills(checkpoint, archive.slice(checkpoint.count, checkpoint.count + config.fillWindow));
+    }
+    const windowed = archive.slice(fillCheckpoint.count, fillCheckpoint.count + fills.length);
+    return JSON.stringify(checkpoint) === JSON.stringify(fillCheckpoint) && JSON.stringify(windowed) === JSON.stringify(fills);
+}
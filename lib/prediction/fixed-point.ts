@@ -0,0 +1,122 @@
+/**
+ * Fixed-point arithmetic for prediction market amounts
+ *
+ * Prices, quantities and USDC balances are integers in micro-units so that
+ * every client computes byte-identical states. Rounding rules:
+ * - Limit prices must sit on TICK_SIZE, quantities on LOT_SIZE. With both
+ *   aligned, every fill notional is an exact integer.
+ * - When rounding is unavoidable, the taker's USDC leg is rounded against
+ *   the taker and the resting maker receives the exact remainder, so USDC
+ *   is never created or destroyed by a fill.
+ */
+
+import {
+    PRICE_PRECISION,
+    TICK_SIZE,
+    QUANTITY_PRECISION,
+    LOT_SIZE,
+    USDC_PRECISION,
+    BPS_DENOMINATOR,
+} from './types';
+import type { ScalarRange } from './types';
+
+export type Rounding = 'UP' | 'DOWN';
+
+/**
+ * Compute a * b / denominator on integers without losing precision
+ */
+export function mulDiv(
+    a: number,
+    b: number,
+    denominator: number,
+    rounding: Rounding
+): number {
+    const product = BigInt(a) * BigInt(b);
+    const divisor = BigInt(denominator);
+    let quotient = product / divisor;
+    if (rounding === 'UP' && quotient * divisor !== product) {
+        quotient += BigInt(1);
+    }
+    return Number(quotient);
+}
+
+/**
+ * USDC value (micro-USDC) of a quantity (micro-shares) at a price
+ */
+export function notional(price: number, quantity: number, rounding: Rounding): number {
+    return mulDiv(price, quantity, PRICE_PRECISION, rounding);
+}
+
+/**
+ * Basis-point share of an amount (fees, slippage)
+ */
+export function bpsOf(amount: number, bps: number, rounding: Rounding): number {
+    return mulDiv(amount, bps, BPS_DENOMINATOR, rounding);
+}
+
+/**
+ * Collateral (micro-USDC) backing a number of complete sets (micro-shares)
+ * One complete set, a share of every outcome, redeems for exactly 1 USDC
+ */
+export function completeSetCollateral(quantity: number): number {
+    return mulDiv(quantity, USDC_PRECISION, QUANTITY_PRECISION, 'DOWN');
+}
+
+/**
+ * Price of the complementary outcome (YES + NO = 1)
+ */
+export function complementPrice(price: number): number {
+    return PRICE_PRECISION - price;
+}
+
+/**
+ * Payout of one LONG share of a scalar market (micro-USDC), linear between the
+ * bounds and rounded down; a SHORT share pays the complement
+ */
+export function scalarLongPayout(value: number, range: ScalarRange): number {
+    const clamped = Math.min(Math.max(value, range.lower), range.upper);
+    return mulDiv(clamped - range.lower, PRICE_PRECISION, range.upper - range.lower, 'DOWN');
+}
+
+/**
+ * Check that a price is an integer on the tick grid
+ */
+export function isOnTick(price: number): boolean {
+    return Number.isSafeInteger(price) && price % TICK_SIZE === 0;
+}
+
+/**
+ * Check that a quantity is an integer on the lot grid
+ */
+export function isOnLot(quantity: number): boolean {
+    return Number.isSafeInteger(quantity) && quantity % LOT_SIZE === 0;
+}
+
+/**
+ * Round a price down / up to the tick grid
+ */
+export function roundDownToTick(price: number): number {
+    return price - (price % TICK_SIZE);
+}
+
+export function roundUpToTick(price: number): number {
+    const remainder = price % TICK_SIZE;
+    return remainder === 0 ? price : price + TICK_SIZE - remainder;
+}
+
+/**
+ * Round a quantity down to the lot grid
+ */
+export function roundDownToLot(quantity: number): number {
+    return quantity - (quantity % LOT_SIZE);
+}
+
+/**
+ * Conversions between integer units and decimal values (UI only)
+ */
+export const priceToDecimal = (price: number): number => price / PRICE_PRECISION;
+export const decimalToPrice = (value: number): number => Math.round(value * PRICE_PRECISION);
+export const quantityToDecimal = (quantity: number): number => quantity / QUANTITY_PRECISION;
+export const decimalToQuantity = (value: number): number => Math.round(value * QUANTITY_PRECISION);
+export const usdcToDecimal = (amount: number): number => amount / USDC_PRECISION;
+export const decimalToUsdc = (value: number): number => Math.round(value * USDC_PRECISION);
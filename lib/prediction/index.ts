@@ -3,8 +3,24 @@
  */
 
 export * from './types';
-export { matcher, PredictionMarketMatcher, createInitialState, initUserBalance } from './matcher';
-export { stateManager, StateManager } from './state-manager';
+export * from './fixed-point';
+export * from './lmsr';
+export * from './positions';
+export * from './fill-archive';
+export {
+    matcher,
+    PredictionMarketMatcher,
+    createInitialState,
+    createScalarState,
+    initUserBalance,
+    createUserBalance,
+    DEFAULT_MARKET_CONFIG,
+    randomId,
+    sequenceId,
+} from './matcher';
+export { stateManager, StateManager, hashState } from './state-manager';
+export { OrderHistory } from './order-history';
+export { replayJournal } from './replay';
 export { createClearNodeClient, ClearNodeClient } from './clearnode-client';
 
 // Export Nitrolite client
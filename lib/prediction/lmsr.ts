@@ -0,0 +1,193 @@
+/**
+ * Logarithmic market scoring rule (LMSR) market maker
+ *
+ * The AMM prices every outcome from the shares it has sold, q, with the cost
+ * function C(q) = b * ln(sum(exp(q_i / b))). A trade costs the change in C, and
+ * the price of an outcome is exp(q_i / b) / sum(exp(q_j / b)). The AMM's loss is
+ * bounded by b * ln(N), which the operator funds up front.
+ *
+ * exp and ln run on BigInt fixed-point with 18 decimals (WAD) rather than
+ * floating point, so every client computes byte-identical states. Rounding
+ * follows fixed-point.ts: traders' USDC legs are rounded against the trader.
+ */
+
+import type { AmmState, Outcome, OrderSide } from './types';
+import { PRICE_PRECISION } from './types';
+import { notional } from './fixed-point';
+
+const WAD = BigInt(10) ** BigInt(18);
+const LN2_WAD = BigInt('693147180559945309');
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+
+/**
+ * e^x for a WAD-scaled x <= 0
+ */
+function expWad(x: bigint): bigint {
+    // x = k * ln2 + r with 0 <= r < ln2, so e^x = e^r / 2^-k
+    let k = x / LN2_WAD;
+    if (k * LN2_WAD > x) {
+        k -= ONE;
+    }
+    if (k < BigInt(-128)) {
+        return ZERO;
+    }
+    const r = x - k * LN2_WAD;
+
+    // Taylor series of e^r
+    let term = WAD;
+    let sum = WAD;
+    for (let i = 1; term > ZERO; i++) {
+        term = (term * r) / (BigInt(i) * WAD);
+        sum += term;
+    }
+    return sum >> -k;
+}
+
+/**
+ * Natural log of a WAD-scaled y > 0
+ */
+function lnWad(y: bigint): bigint {
+    // y = m * 2^k with 1 <= m < 2
+    let k = ZERO;
+    let m = y;
+    while (m >= TWO * WAD) {
+        m >>= ONE;
+        k += ONE;
+    }
+    while (m < WAD) {
+        m <<= ONE;
+        k -= ONE;
+    }
+
+    // ln(m) = 2 * atanh(z) with z = (m - 1) / (m + 1) <= 1/3
+    const z = ((m - WAD) * WAD) / (m + WAD);
+    const z2 = (z * z) / WAD;
+    let term = z;
+    let sum = ZERO;
+    for (let n = 1; term > ZERO; n += 2) {
+        sum += term / BigInt(n);
+        term = (term * z2) / WAD;
+    }
+    return k * LN2_WAD + TWO * sum;
+}
+
+// Round a WAD-scaled amount to an integer, up or down
+const fromWad = (value: bigint, rounding: 'UP' | 'DOWN'): number => {
+    let quotient = value / WAD;
+    if (value < ZERO && quotient * WAD !== value) {
+        quotient -= ONE;
+    }
+    if (rounding === 'UP' && quotient * WAD !== value) {
+        quotient += ONE;
+    }
+    return Number(quotient);
+};
+
+/**
+ * Exponents q_i / b, shifted so the largest is 0, and the sum of their exps
+ */
+function weights(
+    inventory: Record<Outcome, number>,
+    liquidity: number,
+    outcomes: Outcome[]
+): { exponents: bigint[]; shift: bigint; total: bigint } {
+    const b = BigInt(liquidity);
+    const scaled = outcomes.map(o => (BigInt(inventory[o]) * WAD) / b);
+    const shift = scaled.reduce((max, x) => (x > max ? x : max));
+    const exponents = scaled.map(x => expWad(x - shift));
+    return { exponents, shift, total: exponents.reduce((sum, e) => sum + e, ZERO) };
+}
+
+/**
+ * C(q) in WAD-scaled micro-USDC (one share pays at most 1 USDC)
+ */
+function costWad(inventory: Record<Outcome, number>, liquidity: number, outcomes: Outcome[]): bigint {
+    const { shift, total } = weights(inventory, liquidity, outcomes);
+    return BigInt(liquidity) * (shift + lnWad(total));
+}
+
+/**
+ * Operator funding an AMM needs: its worst-case loss b * ln(N), rounded up
+ */
+export function lmsrSubsidy(liquidity: number, outcomeCount: number): number {
+    return fromWad(BigInt(liquidity) * lnWad(BigInt(outcomeCount) * WAD), 'UP');
+}
+
+/**
+ * Marginal price of each outcome (rounded down; prices sum to about 1 USDC)
+ */
+export function lmsrPrices(amm: AmmState, outcomes: Outcome[]): Record<Outcome, number> {
+    const { exponents, total } = weights(amm.inventory, amm.liquidity, outcomes);
+    return Object.fromEntries(
+        outcomes.map((o, i) => [o, Number((exponents[i] * BigInt(PRICE_PRECISION)) / total)])
+    );
+}
+
+/**
+ * USDC a trader pays to buy (rounded up) or receives to sell (rounded down)
+ * a quantity of one outcome
+ */
+export function lmsrTradeValue(
+    amm: AmmState,
+    outcomes: Outcome[],
+    outcome: Outcome,
+    side: OrderSide,
+    quantity: number
+): number {
+    const before = costWad(amm.inventory, amm.liquidity, outcomes);
+    const inventory = {
+        ...amm.inventory,
+        [outcome]: amm.inventory[outcome] + (side === 'BUY' ? quantity : -quantity),
+    };
+    const after = costWad(inventory, amm.liquidity, outcomes);
+    return side === 'BUY' ? fromWad(after - before, 'UP') : fromWad(before - after, 'DOWN');
+}
+
+/**
+ * Quantity (micro-shares, rounded down) a trader can buy or sell before the
+ * outcome's marginal price reaches a target price; 0 if it already has
+ *
+ * From p / (1 - p) = exp(q_i / b) / sum over the other outcomes, moving the
+ * price from p to P takes b * (logit(P) - logit(p)) shares
+ */
+export function lmsrQuantityToPrice(
+    amm: AmmState,
+    outcomes: Outcome[],
+    outcome: Outcome,
+    side: OrderSide,
+    price: number
+): number {
+    if (price <= 0 || price >= PRICE_PRECISION) {
+        throw new Error('Target price must be between 0 and 1 USDC (exclusive)');
+    }
+    const { exponents, total } = weights(amm.inventory, amm.liquidity, outcomes);
+    const own = exponents[outcomes.indexOf(outcome)];
+    const logitCurrent = lnWad((own * WAD) / (total - own));
+    const logitTarget = lnWad((BigInt(price) * WAD) / BigInt(PRICE_PRECISION - price));
+
+    const move = side === 'BUY' ? logitTarget - logitCurrent : logitCurrent - logitTarget;
+    return move > ZERO ? fromWad(BigInt(amm.liquidity) * move, 'DOWN') : 0;
+}
+
+/**
+ * What the AMM owes holders of the shares it sold once resolved (micro-USDC)
+ * Shares it bought back are credited at their payout
+ */
+export function ammLiability(amm: AmmState, outcomes: Outcome[], payouts: Record<Outcome, number>): number {
+    return outcomes.reduce((sum, o) => {
+        const sold = amm.inventory[o];
+        return sold >= 0
+            ? sum + notional(payouts[o], sold, 'UP')
+            : sum - notional(payouts[o], -sold, 'DOWN');
+    }, 0);
+}
+
+/**
+ * Subsidy the AMM would lose if the outcome it is shortest on won (micro-USDC)
+ */
+export function ammWorstCaseLoss(amm: AmmState, outcomes: Outcome[]): number {
+    const maxSold = Math.max(...outcomes.map(o => amm.inventory[o]));
+    return Math.max(0, maxSold - amm.collected);
+}
@@ -3,8 +3,32 @@
  * 
  * Browser-based matching engine with:
  * - Price-time priority FIFO
- * - Binary constraint (YES + NO = 1 USDC)
+ * - Binary (YES / NO), categorical (N-outcome) and scalar (LONG / SHORT over a
+ *   range) markets, one book per outcome
+ * - Complete-set constraint (one share of every outcome = 1 USDC)
+ * - Complementary matching in two-outcome markets (buyers of both outcomes
+ *   mint, sellers burn complete sets)
+ * - Integer fixed-point prices, quantities and balances (see fixed-point.ts)
  * - Limit and market order support
+ * - Time in force (GTC, IOC, FOK, GTD)
+ * - Post-only orders (reject or re-price when crossing)
+ * - Self-trade prevention (per market or per order)
+ * - Collateral locked while orders rest on the book
+ * - Market orders with USDC budget and slippage limits
+ * - Order amendment (in-place size reduction or cancel/replace)
+ * - Stop and stop-limit orders triggered by the last trade price
+ * - Iceberg orders with a hidden reserve
+ * - Mass cancel by user, outcome and side
+ * - Maker/taker fees and rebates credited to an operator account
+ * - Frequent batch auction mode with a uniform clearing price per batch
+ * - LMSR market maker as backstop liquidity for continuous markets
+ * - Minting and redeeming complete sets for USDC
+ * - Typed, ordered events for every state transition, from which order
+ *   history with status changes is rebuilt off the state (see order-history.ts)
+ * - Pre-trade risk limits (order size, position, open orders, price band)
+ *   with machine-readable rejection codes
+ * - Bounded fill window with a hash-chained checkpoint of older fills
+ * - Injectable clock and ID generator, so replicas can reproduce states exactly
  */
 
 import type {
@@ -12,6 +36,9 @@ import type {
     OrderRequest,
     OrderResult,
     Fill,
+    FillType,
+    RemainderOutcome,
+    PostOnlyAction,
     Orderbook,
     PredictionMarketState,
     UserBalance,
@@ -19,74 +46,442 @@ import type {
     OrderSide,
     PriceLevel,
     OrderbookDisplay,
+    MarketConfig,
+    SelfTradePreventionMode,
+    SelfTradeCancellation,
+    MarketStopReason,
+    AmendOrderRequest,
+    AmendOrderResult,
+    AmendErrorCode,
+    OrderType,
+    TimeInForce,
+    TriggeredOrder,
+    CancelAllFilter,
+    CancelAllResult,
+    FeeSchedule,
+    BatchAuctionResult,
+    BookSide,
+    BookLevel,
+    ScalarRange,
+    AmmState,
+    AmmStartResult,
+    CompleteSetResult,
+    CancelReason,
+    MatchingEvent,
+    OrderCancelledEvent,
+    Clock,
+    IdGenerator,
+    MatcherOptions,
+    RiskLimits,
+    RiskLimitCode,
 } from './types';
+import {
+    PRICE_PRECISION,
+    TICK_SIZE,
+    LOT_SIZE,
+    BPS_DENOMINATOR,
+    BINARY_OUTCOMES,
+    SCALAR_OUTCOMES,
+    AMM_MAKER_ID,
+} from './types';
+import {
+    createOrderbook,
+    getBookSide,
+    bestOrder,
+    getOrder,
+    getPriority,
+    listOrders,
+    addOrder,
+    removeOrder,
+    replaceOrder,
+    requeueOrder,
+    removeExpired,
+} from './orderbook';
+import {
+    notional,
+    bpsOf,
+    completeSetCollateral,
+    complementPrice,
+    isOnTick,
+    isOnLot,
+    mulDiv,
+    roundDownToLot,
+    roundDownToTick,
+    roundUpToTick,
+    usdcToDecimal,
+    quantityToDecimal,
+} from './fixed-point';
+import {
+    lmsrSubsidy,
+    lmsrPrices,
+    lmsrTradeValue,
+    lmsrQuantityToPrice,
+    ammWorstCaseLoss,
+} from './lmsr';
+import type { OrderHistory } from './order-history';
+import { appendFills, createFillCheckpoint } from './fill-archive';
 
-// Generate unique ID
-const generateId = (): string =>
+/**
+ * Time-based random IDs; unique, but no two replicas issue the same ones
+ */
+export const randomId: IdGenerator = () =>
     `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
+/**
+ * Deterministic IDs from the sequence of the state being produced and the
+ * order they are issued in, e.g. "42-0", "42-1"
+ */
+export const sequenceId: IdGenerator = (sequence, index) => `${sequence}-${index}`;
+
+// Other outcome of a two-outcome market; complementary (MINT / BURN) matching
+// needs exactly two outcomes
+const complementOf = (outcomes: Outcome[], outcome: Outcome): Outcome | null =>
+    outcomes.length === 2 ? outcomes[outcomes[0] === outcome ? 1 : 0] : null;
+
+// Last trade prices after a run of fills; in two-outcome markets the other
+// outcome is marked at the complement (binary constraint)
+const updateLastPrices = (
+    outcomes: Outcome[],
+    lastPrices: Record<Outcome, number | null>,
+    fills: Fill[]
+): Record<Outcome, number | null> => {
+    const prices = { ...lastPrices };
+    for (const fill of fills) {
+        prices[fill.outcome] = fill.price;
+        const complement = complementOf(outcomes, fill.outcome);
+        if (complement !== null) {
+            prices[complement] = complementPrice(fill.price);
+        }
+    }
+    return prices;
+};
+
+// Market-style orders take liquidity immediately and never rest
+const isMarketType = (type: OrderType): boolean => type === 'MARKET' || type === 'STOP';
+const isStopType = (type: OrderType): boolean => type === 'STOP' || type === 'STOP_LIMIT';
+const defaultTimeInForce = (type: OrderType): TimeInForce => (isMarketType(type) ? 'IOC' : 'GTC');
+
+// Orders that can end up open: stops waiting for their trigger, and GTC / GTD orders
+const mayRest = (request: OrderRequest): boolean => {
+    const timeInForce = request.timeInForce ?? defaultTimeInForce(request.type);
+    return isStopType(request.type) || timeInForce === 'GTC' || timeInForce === 'GTD';
+};
+
+// A user's risk limits: the market's, with any per-user overrides
+const riskLimitsFor = (config: MarketConfig, userId: string): RiskLimits =>
+    ({ ...config.riskLimits, ...config.userRiskLimits[userId] });
+
+// Quantity a resting order exposes to takers (the current slice for icebergs)
+const visibleQuantity = (order: Order): number => order.visibleQuantity ?? order.remainingQuantity;
+
+// Batch auctions read every order in terms of the outcome being auctioned:
+// its buys and the other outcome's sells are demand, the rest is supply, and
+// the other outcome's prices convert via the complement
+const isDemand = (order: Order, outcome: Outcome): boolean =>
+    (order.outcome === outcome) === (order.side === 'BUY');
+const priceIn = (order: Order, outcome: Outcome): number =>
+    order.outcome === outcome ? order.price : complementPrice(order.price);
+
+// Start a new iceberg slice from the hidden reserve
+const refillSlice = (order: Order): Order =>
+    order.displayQuantity === undefined
+        ? order
+        : { ...order, visibleQuantity: Math.min(order.displayQuantity, order.remainingQuantity) };
+
+// Event for quantity cancelled off an order
+const cancelledEvent = (
+    order: Order,
+    quantity: number,
+    reason: CancelReason,
+    sequence: number
+): OrderCancelledEvent => ({ type: 'ORDER_CANCELLED', sequence, orderId: order.id, userId: order.userId, quantity, reason });
+
+// Start a transition; its events accumulate on the state until it is committed
+const openTransition = (state: PredictionMarketState): PredictionMarketState => ({ ...state, events: [] });
+
+// Append events to a transition in progress
+const emit = (state: PredictionMarketState, ...events: MatchingEvent[]): PredictionMarketState =>
+    ({ ...state, events: [...state.events, ...events] });
+
+const sameBalance = (a: UserBalance | undefined, b: UserBalance): boolean =>
+    a === b || (
+        a !== undefined && a.usdc === b.usdc && a.lockedUsdc === b.lockedUsdc && a.openOrders === b.openOrders &&
+        Object.keys(b.shares).every(o =>
+            a.shares[o] === b.shares[o] && a.lockedShares[o] === b.lockedShares[o] && a.openBuys[o] === b.openBuys[o])
+    );
+
+// Commit a transition: advance the sequence and close its events with one
+// BALANCE_CHANGED per balance that differs from before
+const commitTransition = (
+    before: PredictionMarketState,
+    after: PredictionMarketState,
+    now: number
+): PredictionMarketState => {
+    const sequence = before.sequence + 1;
+    const changed = after.balances === before.balances
+        ? []
+        : Object.keys(after.balances).filter(userId => !sameBalance(before.balances[userId], after.balances[userId]));
+    return {
+        ...after,
+        events: [
+            ...after.events,
+            ...changed.map((userId): MatchingEvent =>
+                ({ type: 'BALANCE_CHANGED', sequence, userId, balance: after.balances[userId] })),
+        ],
+        sequence,
+        timestamp: now,
+    };
+};
+
+/**
+ * Default market configuration
+ */
+export const DEFAULT_MARKET_CONFIG: MarketConfig = {
+    selfTradePrevention: 'CANCEL_NEWEST',
+    fees: {
+        makerFeeBps: 0,
+        takerFeeBps: 0,
+        minFee: 0,
+        operatorId: 'operator',
+    },
+    matchingMode: 'CONTINUOUS',
+    batchIntervalMs: 1000,
+    fillWindow: 1000,
+    riskLimits: {
+        maxOrderQuantity: null,
+        maxPosition: null,
+        maxOpenOrders: null,
+        priceBand: null,
+    },
+    userRiskLimits: {},
+};
+
+/**
+ * Check that a fee schedule can never overdraw the operator account
+ */
+function validateFeeSchedule(fees: FeeSchedule): void {
+    const { makerFeeBps, takerFeeBps, minFee } = fees;
+    if (!Number.isSafeInteger(takerFeeBps) || takerFeeBps < 0 || takerFeeBps > BPS_DENOMINATOR) {
+        throw new Error(`Taker fee must be an integer between 0 and ${BPS_DENOMINATOR} bps`);
+    }
+    if (!Number.isSafeInteger(makerFeeBps) || makerFeeBps < -takerFeeBps || makerFeeBps > BPS_DENOMINATOR) {
+        throw new Error(`Maker fee must be an integer between -takerFeeBps and ${BPS_DENOMINATOR} bps`);
+    }
+    if (!Number.isSafeInteger(minFee) || minFee < 0) {
+        throw new Error('Minimum fee must be a non-negative integer amount of micro-USDC');
+    }
+}
+
+/**
+ * Check that every set risk limit is a positive integer
+ */
+function validateRiskLimits(limits: Partial<RiskLimits>): void {
+    for (const [name, value] of Object.entries(limits)) {
+        if (value !== null && value !== undefined && (!Number.isSafeInteger(value) || value <= 0)) {
+            throw new Error(`Risk limit ${name} must be a positive integer or null`);
+        }
+    }
+}
+
 /**
  * Create initial empty state
+ * Binary (YES / NO) unless other outcomes are given
  */
 export function createInitialState(
     marketId: string,
-    question: string
+    question: string,
+    config: Partial<MarketConfig> = {},
+    outcomes: Outcome[] = BINARY_OUTCOMES,
+    now: number = Date.now()
 ): PredictionMarketState {
+    if (outcomes.length < 2 || new Set(outcomes).size !== outcomes.length || outcomes.some(o => o.trim() === '')) {
+        throw new Error('A market needs at least two distinct, non-empty outcomes');
+    }
+
+    const marketConfig: MarketConfig = {
+        ...DEFAULT_MARKET_CONFIG,
+        ...config,
+        fees: { ...DEFAULT_MARKET_CONFIG.fees, ...config.fees },
+        riskLimits: { ...DEFAULT_MARKET_CONFIG.riskLimits, ...config.riskLimits },
+        userRiskLimits: { ...config.userRiskLimits },
+    };
+    validateFeeSchedule(marketConfig.fees);
+    validateRiskLimits(marketConfig.riskLimits);
+    Object.values(marketConfig.userRiskLimits).forEach(validateRiskLimits);
+    if (!Number.isSafeInteger(marketConfig.batchIntervalMs) || marketConfig.batchIntervalMs <= 0) {
+        throw new Error('Batch interval must be a positive integer number of milliseconds');
+    }
+    if (!Number.isSafeInteger(marketConfig.fillWindow) || marketConfig.fillWindow <= 0) {
+        throw new Error('Fill window must be a positive integer number of fills');
+    }
+
     return {
         marketId,
         question,
+        outcomes: [...outcomes],
         status: 'ACTIVE',
-        orderbook: {
-            yesBids: [],
-            yesAsks: [],
-            noBids: [],
-            noAsks: [],
-        },
+        config: marketConfig,
+        orderbook: createOrderbook(outcomes),
+        triggerOrders: [],
+        batch: null,
+        amm: null,
         balances: {},
         fills: [],
+        fillCheckpoint: createFillCheckpoint(),
+        events: [],
         sequence: 0,
-        timestamp: Date.now(),
-        lastYesPrice: null,
-        lastNoPrice: null,
+        timestamp: now,
+        lastPrices: Object.fromEntries(outcomes.map(o => [o, null])),
+        scalarRange: null,
+    };
+}
+
+/**
+ * Create a scalar market trading LONG and SHORT over a range
+ */
+export function createScalarState(
+    marketId: string,
+    question: string,
+    range: ScalarRange,
+    config: Partial<MarketConfig> = {},
+    now: number = Date.now()
+): PredictionMarketState {
+    if (!Number.isSafeInteger(range.lower) || !Number.isSafeInteger(range.upper) || range.lower >= range.upper) {
+        throw new Error('Scalar range needs integer bounds with lower below upper');
+    }
+    return {
+        ...createInitialState(marketId, question, config, SCALAR_OUTCOMES, now),
+        scalarRange: { lower: range.lower, upper: range.upper },
     };
 }
 
 /**
- * Initialize user balance
+ * Empty balance with an entry for every outcome
+ */
+export function createUserBalance(outcomes: Outcome[], usdc: number = 0): UserBalance {
+    const zeros = Object.fromEntries(outcomes.map(o => [o, 0]));
+    return { usdc, shares: zeros, lockedUsdc: 0, lockedShares: { ...zeros }, openOrders: 0, openBuys: { ...zeros } };
+}
+
+/**
+ * Initialize user balance, or credit a deposit to an existing one
  */
 export function initUserBalance(
     state: PredictionMarketState,
     userId: string,
-    usdcAmount: number
+    usdcAmount: number,
+    now: number = Date.now()
 ): PredictionMarketState {
-    return {
-        ...state,
+    const balance = state.balances[userId] ?? createUserBalance(state.outcomes);
+    return commitTransition(state, {
+        ...openTransition(state),
         balances: {
             ...state.balances,
-            [userId]: {
-                usdc: usdcAmount,
-                yes: 0,
-                no: 0,
-            },
+            [userId]: { ...balance, usdc: balance.usdc + usdcAmount },
         },
-        sequence: state.sequence + 1,
-        timestamp: Date.now(),
-    };
+    }, now);
 }
 
 /**
  * Main matching engine class
  */
 export class PredictionMarketMatcher {
+    private readonly clock: Clock;
+    private readonly generateId: IdGenerator;
+    // Sequence of the transition being built and how many IDs it has issued
+    private transitionSequence = 0;
+    private issuedIds = 0;
+
+    constructor(options: MatcherOptions = {}) {
+        this.clock = options.clock ?? Date.now;
+        this.generateId = options.generateId ?? randomId;
+    }
+
+    /**
+     * Start a transition from a state: clear its events and restart ID issuing
+     */
+    private beginTransition(state: PredictionMarketState): PredictionMarketState {
+        this.transitionSequence = state.sequence + 1;
+        this.issuedIds = 0;
+        return openTransition(state);
+    }
+
+    /**
+     * Next order, fill or batch ID of the current transition
+     */
+    private nextId(): string {
+        return this.generateId(this.transitionSequence, this.issuedIds++);
+    }
+
     /**
      * Process an order request and return updated state
+     * Stop orders triggered by the resulting trades are executed in the same transition
      */
     processOrder(
         currentState: PredictionMarketState,
         request: OrderRequest
     ): OrderResult {
+        const now = this.clock();
+        const result = this.placeOrder(this.beginTransition(currentState), request, now);
+        if (!result.success) {
+            return {
+                ...result,
+                events: [{
+                    type: 'ORDER_REJECTED',
+                    sequence: currentState.sequence,
+                    request,
+                    error: result.error!,
+                    ...(result.riskCode && { riskCode: result.riskCode }),
+                }],
+                newState: currentState,
+            };
+        }
+
+        const newState = commitTransition(currentState, result.newState, now);
+        return { ...result, events: newState.events, newState };
+    }
+
+    /**
+     * Execute an order, then the stop orders its trades trigger
+     * Does not commit the transition; callers do
+     */
+    private placeOrder(
+        state: PredictionMarketState,
+        request: OrderRequest,
+        now: number
+    ): OrderResult {
+        const result = this.executeOrder(state, request, now);
+        if (!result.success) {
+            return result;
+        }
+
+        const { state: released, triggeredOrders } = this.releaseTriggeredOrders(result.newState, now);
+
+        return {
+            ...result,
+            ...(triggeredOrders.length > 0 && { triggeredOrders }),
+            newState: released,
+        };
+    }
+
+    /**
+     * Validate, match and rest a single order
+     * A triggered stop order keeps its ID (stopId) and is not accepted again
+     * Does not advance sequence or timestamp; callers own the state transition
+     */
+    private executeOrder(
+        currentState: PredictionMarketState,
+        request: OrderRequest,
+        now: number,
+        stopId?: string
+    ): OrderResult {
+        const orderId = stopId ?? this.nextId();
+
+        // Sweep expired GTD orders before they can be matched
+        const { state: sweptState, expiredOrderIds } = this.removeExpiredOrders(currentState, now);
+
         // Validate request
-        const validationError = this.validateRequest(currentState, request);
+        const validationError = this.validateRequest(sweptState, request, now);
         if (validationError) {
             return {
                 success: false,
@@ -96,70 +491,232 @@ export class PredictionMarketMatcher {
             };
         }
 
+        // Pre-trade risk checks
+        const riskRejection = this.checkRiskLimits(sweptState, request);
+        if (riskRejection) {
+            return {
+                success: false,
+                ...riskRejection,
+                fills: [],
+                newState: currentState,
+            };
+        }
+
+        const timeInForce = request.timeInForce ?? defaultTimeInForce(request.type);
+
+        // Budget-only market buys are capped by what the budget buys at the
+        // minimum tick, and by the user's order size and position limits
+        const limits = riskLimitsFor(sweptState.config, request.userId);
+        const quantity = request.quantity ?? roundDownToLot(Math.min(
+            mulDiv(request.budget!, PRICE_PRECISION, TICK_SIZE, 'DOWN'),
+            limits.maxOrderQuantity ?? Infinity,
+            this.positionHeadroom(sweptState, request.userId, request.outcome, limits.maxPosition)
+        ));
+
         // Create order
         const order: Order = {
-            id: generateId(),
+            id: orderId,
             userId: request.userId,
             outcome: request.outcome,
             side: request.side,
             type: request.type,
+            timeInForce,
+            ...(timeInForce === 'GTD' && { expiresAt: request.expiresAt }),
+            ...(isStopType(request.type) && { triggerPrice: request.triggerPrice }),
+            ...(request.displayQuantity !== undefined && { displayQuantity: request.displayQuantity }),
+            ...(request.postOnly && { postOnly: true }),
+            ...(request.postOnly && request.postOnlyMode !== undefined && { postOnlyMode: request.postOnlyMode }),
+            ...(request.selfTradePrevention !== undefined && { selfTradePrevention: request.selfTradePrevention }),
             price: request.type === 'MARKET'
-                ? (request.side === 'BUY' ? 1 : 0)  // Market buy at max, sell at min
-                : request.price!,
-            quantity: request.quantity,
-            remainingQuantity: request.quantity,
-            timestamp: Date.now(),
+                ? this.getMarketLimitPrice(sweptState, request)
+                : request.type === 'STOP'
+                    ? (request.side === 'BUY' ? PRICE_PRECISION : 0)  // Stop buy at max, sell at min
+                    : request.price!,
+            quantity,
+            remainingQuantity: quantity,
+            timestamp: now,
             status: 'OPEN',
         };
 
+        // A triggered stop order was accepted when it was placed
+        const sequence = currentState.sequence + 1;
+        const accepted = (acceptedOrder: Order = order): MatchingEvent[] => stopId !== undefined
+            ? []
+            : [{ type: 'ORDER_ACCEPTED', sequence, order: { ...acceptedOrder } }];
+
+        // Stop orders wait in the trigger book with their collateral locked
+        if (isStopType(order.type)) {
+            return {
+                success: true,
+                order,
+                fills: [],
+                remainderOutcome: 'PENDING_TRIGGER',
+                expiredOrderIds,
+                newState: {
+                    ...sweptState,
+                    triggerOrders: [...sweptState.triggerOrders, order],
+                    balances: this.lockCollateral(sweptState.balances, order, 1, sweptState.config),
+                    events: [...sweptState.events, ...accepted()],
+                },
+            };
+        }
+
+        // Batch auctions: queue the order in the book until the batch clears
+        if (sweptState.config.matchingMode === 'BATCH_AUCTION') {
+            const batch = sweptState.batch ?? { id: this.nextId(), openedAt: now };
+            return {
+                success: true,
+                order,
+                fills: [],
+                remainderOutcome: 'PENDING_BATCH',
+                expiredOrderIds,
+                batchId: batch.id,
+                newState: {
+                    ...sweptState,
+                    batch,
+                    orderbook: addOrder(sweptState.orderbook, order),
+                    balances: this.lockCollateral(sweptState.balances, order, 1, sweptState.config),
+                    events: [...sweptState.events, ...accepted(), { type: 'ORDER_RESTED', sequence, order }],
+                },
+            };
+        }
+
+        // Post-only: the order must not take liquidity on arrival
+        let postOnlyAction: PostOnlyAction | undefined;
+        if (request.postOnly) {
+            const repricedPrice = this.getPostOnlyPrice(sweptState, order);
+            if (repricedPrice === order.price) {
+                postOnlyAction = 'NONE';
+            } else if (request.postOnlyMode === 'REPRICE' && repricedPrice !== null) {
+                postOnlyAction = 'REPRICED';
+                order.price = repricedPrice;
+            } else {
+                return {
+                    success: false,
+                    error: 'Post-only order would cross the book',
+                    order: { ...order, status: 'CANCELLED' },
+                    fills: [],
+                    postOnlyAction: 'REJECTED',
+                    newState: currentState,
+                };
+            }
+        }
+
         // Try to match
-        const { fills, updatedOrder, updatedOrderbook, updatedBalances } =
-            this.matchOrder(currentState, order);
+        const selfTradePrevention = request.selfTradePrevention ?? sweptState.config.selfTradePrevention;
+        const {
+            fills,
+            updatedOrder,
+            updatedOrderbook,
+            updatedBalances,
+            updatedAmm,
+            events,
+            selfTradeCancellations,
+            takerCancelled,
+            stopReason,
+        } = this.matchOrder(sweptState, order, { selfTradePrevention, budget: request.budget }, now);
+
+        // Budget-only market buys are for whatever the budget bought; they are
+        // accepted for that plus any self-trade decrements, so their events add up
+        const filledQuantity = fills.reduce((sum, f) => sum + f.quantity, 0);
+        const acceptedOrder: Order = { ...order };
+        if (request.quantity === undefined) {
+            acceptedOrder.quantity = order.quantity - updatedOrder.remainingQuantity;
+            acceptedOrder.remainingQuantity = acceptedOrder.quantity;
+            updatedOrder.quantity = filledQuantity;
+            updatedOrder.remainingQuantity = 0;
+        }
+
+        // Fill-or-kill: reject without any state change unless fully filled
+        if (timeInForce === 'FOK' && filledQuantity < order.quantity) {
+            return {
+                success: false,
+                error: 'Fill-or-kill order could not be filled in full',
+                order: { ...order, status: 'CANCELLED' },
+                fills: [],
+                remainderOutcome: 'KILLED',
+                cancelledQuantity: order.quantity,
+                newState: currentState,
+            };
+        }
 
         // Update state
         let newOrderbook = updatedOrderbook;
+        let newBalances = updatedBalances;
+        let remainderOutcome: RemainderOutcome = 'NONE';
+        let cancelledQuantity = 0;
 
-        // Add remaining order to book if not fully filled
-        if (updatedOrder.remainingQuantity > 0 && updatedOrder.type === 'LIMIT') {
-            newOrderbook = this.addToOrderbook(newOrderbook, updatedOrder);
+        if (updatedOrder.remainingQuantity > 0) {
+            if (takerCancelled) {
+                // Self-trade prevention cancelled the taker's remainder
+                remainderOutcome = 'CANCELLED';
+                cancelledQuantity = updatedOrder.remainingQuantity;
+            } else if (timeInForce === 'GTC' || timeInForce === 'GTD') {
+                // Add remaining order to book and reserve its collateral
+                newOrderbook = addOrder(newOrderbook, refillSlice(updatedOrder));
+                newBalances = this.lockCollateral(newBalances, updatedOrder, 1, currentState.config);
+                remainderOutcome = 'RESTED';
+            } else {
+                // IOC: cancel whatever did not fill immediately
+                remainderOutcome = 'CANCELLED';
+                cancelledQuantity = updatedOrder.remainingQuantity;
+            }
+        } else if (request.quantity === undefined && filledQuantity === 0) {
+            // A budget-only buy that bought nothing is cancelled, not filled
+            remainderOutcome = 'CANCELLED';
         }
 
         // Update order status
-        if (updatedOrder.remainingQuantity === 0) {
+        if (filledQuantity > 0 && filledQuantity === updatedOrder.quantity) {
             updatedOrder.status = 'FILLED';
+        } else if (remainderOutcome === 'CANCELLED' || updatedOrder.remainingQuantity === 0) {
+            updatedOrder.status = 'CANCELLED';
         } else if (updatedOrder.remainingQuantity < updatedOrder.quantity) {
             updatedOrder.status = 'PARTIAL';
         }
 
-        // Calculate last prices from fills
-        let lastYesPrice = currentState.lastYesPrice;
-        let lastNoPrice = currentState.lastNoPrice;
-
-        for (const fill of fills) {
-            if (fill.outcome === 'YES') {
-                lastYesPrice = fill.price;
-                lastNoPrice = 1 - fill.price; // Binary constraint
-            } else {
-                lastNoPrice = fill.price;
-                lastYesPrice = 1 - fill.price;
-            }
-        }
+        const remainderReason: CancelReason = takerCancelled ? 'SELF_TRADE' : 'UNFILLED';
+        const remainderEvents: MatchingEvent[] = remainderOutcome === 'RESTED'
+            ? [{ type: 'ORDER_RESTED', sequence, order: updatedOrder }]
+            : remainderOutcome === 'CANCELLED'
+                ? [cancelledEvent(updatedOrder, cancelledQuantity, remainderReason, sequence)]
+                : [];
 
         const newState: PredictionMarketState = {
-            ...currentState,
+            ...sweptState,
             orderbook: newOrderbook,
-            balances: updatedBalances,
-            fills: [...currentState.fills, ...fills],
-            sequence: currentState.sequence + 1,
-            timestamp: Date.now(),
-            lastYesPrice,
-            lastNoPrice,
+            balances: newBalances,
+            amm: updatedAmm,
+            ...appendFills(currentState, fills),
+            lastPrices: updateLastPrices(currentState.outcomes, currentState.lastPrices, fills),
+            events: [...sweptState.events, ...accepted(acceptedOrder), ...events, ...remainderEvents],
         };
 
+        // Average price rounded against the taker (see fixed-point.ts)
+        const filledNotional = fills.reduce(
+            (sum, f) => sum + notional(f.price, f.quantity, order.side === 'BUY' ? 'UP' : 'DOWN'),
+            0
+        );
+
         return {
             success: true,
             order: updatedOrder,
             fills,
+            ...(filledQuantity > 0 && {
+                averageFillPrice: mulDiv(
+                    filledNotional,
+                    PRICE_PRECISION,
+                    filledQuantity,
+                    order.side === 'BUY' ? 'UP' : 'DOWN'
+                ),
+            }),
+            ...(order.type === 'MARKET' && { marketStopReason: stopReason }),
+            ...(postOnlyAction !== undefined && { postOnlyAction }),
+            ...(postOnlyAction === 'REPRICED' && { originalPrice: request.price }),
+            remainderOutcome,
+            cancelledQuantity,
+            ...(selfTradeCancellations.length > 0 && { selfTradeCancellations }),
+            expiredOrderIds,
             newState,
         };
     }
@@ -169,7 +726,8 @@ export class PredictionMarketMatcher {
      */
     private validateRequest(
         state: PredictionMarketState,
-        request: OrderRequest
+        request: OrderRequest,
+        now: number
     ): string | null {
         // Check market is active
         if (state.status !== 'ACTIVE') {
@@ -182,32 +740,167 @@ export class PredictionMarketMatcher {
             return 'User not found. Please deposit first.';
         }
 
+        if (!state.outcomes.includes(request.outcome)) {
+            return `Unknown outcome: ${request.outcome}`;
+        }
+
         // Validate quantity
-        if (request.quantity <= 0) {
-            return 'Quantity must be positive';
+        if (request.quantity === undefined) {
+            if (request.budget === undefined) {
+                return 'Quantity required unless a budget is set';
+            }
+        } else {
+            if (request.quantity <= 0) {
+                return 'Quantity must be positive';
+            }
+            if (!isOnLot(request.quantity)) {
+                return `Quantity must be a multiple of the lot size (${quantityToDecimal(LOT_SIZE)} shares)`;
+            }
+        }
+
+        // Validate stop trigger
+        if (isStopType(request.type)) {
+            if (request.triggerPrice === undefined) {
+                return 'Trigger price required for stop orders';
+            }
+            if (request.triggerPrice <= 0 || request.triggerPrice >= PRICE_PRECISION || !isOnTick(request.triggerPrice)) {
+                return `Trigger price must be a multiple of the tick size (${usdcToDecimal(TICK_SIZE)} USDC) between 0 and 1 USDC (exclusive)`;
+            }
+            if (this.isTriggered(state, { ...request, triggerPrice: request.triggerPrice })) {
+                return 'Stop order would trigger immediately';
+            }
+        } else if (request.triggerPrice !== undefined) {
+            return 'Trigger price applies to stop orders only';
+        }
+
+        // Validate market order limits
+        if (request.type !== 'MARKET' &&
+            (request.budget !== undefined || request.worstPrice !== undefined || request.maxSlippageBps !== undefined)) {
+            return 'Budget, worst price and slippage apply to market orders only';
+        }
+        if (request.budget !== undefined) {
+            if (request.side !== 'BUY') {
+                return 'Budget applies to market buys only';
+            }
+            if (!Number.isSafeInteger(request.budget) || request.budget <= 0) {
+                return 'Budget must be a positive integer amount of micro-USDC';
+            }
+        }
+        if (request.worstPrice !== undefined) {
+            if (request.worstPrice <= 0 || request.worstPrice > PRICE_PRECISION) {
+                return 'Worst price must be between 0 (exclusive) and 1 USDC';
+            }
+            if (!isOnTick(request.worstPrice)) {
+                return `Worst price must be a multiple of the tick size (${usdcToDecimal(TICK_SIZE)} USDC)`;
+            }
+        }
+        if (request.maxSlippageBps !== undefined &&
+            (!Number.isSafeInteger(request.maxSlippageBps) || request.maxSlippageBps < 0)) {
+            return 'Max slippage must be a non-negative integer number of basis points';
         }
 
         // Validate price for limit orders
-        if (request.type === 'LIMIT') {
+        if (request.type === 'LIMIT' || request.type === 'STOP_LIMIT') {
             if (request.price === undefined) {
                 return 'Price required for limit orders';
             }
-            if (request.price <= 0 || request.price >= 1) {
+            if (request.price <= 0 || request.price >= PRICE_PRECISION) {
                 return 'Price must be between 0 and 1 USDC (exclusive)';
             }
+            if (!isOnTick(request.price)) {
+                return `Price must be a multiple of the tick size (${usdcToDecimal(TICK_SIZE)} USDC)`;
+            }
+        }
+
+        // Validate time in force
+        const timeInForce = request.timeInForce ?? defaultTimeInForce(request.type);
+        if (isMarketType(request.type) && (timeInForce === 'GTC' || timeInForce === 'GTD')) {
+            return 'Market orders must be IOC or FOK';
+        }
+        if (timeInForce === 'GTD') {
+            if (request.expiresAt === undefined) {
+                return 'Expiry required for GTD orders';
+            }
+            if (!Number.isSafeInteger(request.expiresAt)) {
+                return 'GTD expiry must be an integer timestamp in milliseconds';
+            }
+            if (request.expiresAt <= now) {
+                return 'GTD expiry must be in the future';
+            }
+        }
+
+        if (request.quantity === undefined && timeInForce === 'FOK') {
+            return 'Budget-only market orders cannot be FOK';
+        }
+
+        // Batch auctions clear plain limit orders (GTC, GTD, or IOC for one batch)
+        if (state.config.matchingMode === 'BATCH_AUCTION') {
+            if (request.type !== 'LIMIT') {
+                return 'Batch auction markets accept limit orders only';
+            }
+            if (timeInForce === 'FOK') {
+                return 'Fill-or-kill orders are not supported in batch auctions';
+            }
+            if (request.postOnly || request.displayQuantity !== undefined) {
+                return 'Post-only and iceberg orders are not supported in batch auctions';
+            }
+            if (request.selfTradePrevention !== undefined) {
+                return 'Batch auctions apply the market self-trade prevention mode';
+            }
+        }
+
+        // Validate post-only
+        if (request.postOnly && (request.type !== 'LIMIT' || timeInForce === 'IOC' || timeInForce === 'FOK')) {
+            return 'Post-only orders must be GTC or GTD limit orders';
+        }
+
+        // Validate iceberg display size
+        if (request.displayQuantity !== undefined) {
+            if (request.type !== 'LIMIT' && request.type !== 'STOP_LIMIT') {
+                return 'Display quantity applies to limit orders only';
+            }
+            if (timeInForce !== 'GTC' && timeInForce !== 'GTD') {
+                return 'Iceberg orders must be GTC or GTD';
+            }
+            if (request.displayQuantity <= 0 || !isOnLot(request.displayQuantity)) {
+                return `Display quantity must be a positive multiple of the lot size (${quantityToDecimal(LOT_SIZE)} shares)`;
+            }
+            if (request.quantity !== undefined && request.displayQuantity > request.quantity) {
+                return 'Display quantity cannot exceed order quantity';
+            }
         }
 
-        // Check sufficient balance
+        // Check sufficient available (unlocked) balance
         if (request.side === 'BUY') {
-            const requiredUSDC = (request.price || 1) * request.quantity;
-            if (userBalance.usdc < requiredUSDC) {
-                return `Insufficient USDC. Need ${requiredUSDC.toFixed(4)}, have ${userBalance.usdc.toFixed(4)}`;
+            const limitPrice = request.type === 'MARKET'
+                ? this.getMarketLimitPrice(state, request)
+                : request.type === 'STOP'
+                    ? PRICE_PRECISION
+                    : request.price!;
+            const quantityCost = request.quantity !== undefined
+                ? notional(limitPrice, request.quantity, 'UP')
+                : Infinity;
+            const cost = Math.min(quantityCost, request.budget ?? Infinity);
+            // Reserve the worst-case fee for the taken and the resting parts
+            const { fees } = state.config;
+            const requiredUSDC = cost +
+                bpsOf(cost, Math.max(fees.takerFeeBps, fees.makerFeeBps), 'DOWN') +
+                fees.minFee;
+            const availableUSDC = userBalance.usdc - userBalance.lockedUsdc;
+            if (availableUSDC < requiredUSDC) {
+                return `Insufficient USDC. Need ${usdcToDecimal(requiredUSDC).toFixed(6)}, available ${usdcToDecimal(availableUSDC).toFixed(6)}`;
             }
         } else {
             // Selling requires holding the outcome tokens
-            const tokens = request.outcome === 'YES' ? userBalance.yes : userBalance.no;
-            if (tokens < request.quantity) {
-                return `Insufficient ${request.outcome} tokens. Need ${request.quantity}, have ${tokens}`;
+            const tokens = userBalance.shares[request.outcome] - userBalance.lockedShares[request.outcome];
+            const quantity = request.quantity!;
+            if (tokens < quantity) {
+                return `Insufficient ${request.outcome} tokens. Need ${quantityToDecimal(quantity)}, available ${quantityToDecimal(tokens)}`;
+            }
+            // Proceeds of a small sale may not cover the minimum fee
+            const availableUSDC = userBalance.usdc - userBalance.lockedUsdc;
+            if (availableUSDC < state.config.fees.minFee) {
+                return `Insufficient USDC for the minimum fee of ${usdcToDecimal(state.config.fees.minFee).toFixed(6)}`;
             }
         }
 
@@ -215,118 +908,528 @@ export class PredictionMarketMatcher {
     }
 
     /**
-     * Match order against orderbook
+     * Check an order against the user's risk limits
+     * Budget-only market buys have no quantity yet; executeOrder caps theirs
+     * to the limits instead
      */
-    private matchOrder(
+    private checkRiskLimits(
         state: PredictionMarketState,
-        order: Order
-    ): {
-        fills: Fill[];
-        updatedOrder: Order;
-        updatedOrderbook: Orderbook;
-        updatedBalances: Record<string, UserBalance>;
-    } {
-        const fills: Fill[] = [];
-        let remainingQty = order.quantity;
-        let balances = { ...state.balances };
-        let orderbook = this.cloneOrderbook(state.orderbook);
+        request: OrderRequest
+    ): { riskCode: RiskLimitCode; error: string } | null {
+        const { maxOrderQuantity, maxPosition, maxOpenOrders, priceBand } = riskLimitsFor(state.config, request.userId);
+
+        if (maxOrderQuantity !== null && request.quantity !== undefined && request.quantity > maxOrderQuantity) {
+            return {
+                riskCode: 'MAX_ORDER_QUANTITY',
+                error: `Quantity exceeds the maximum order size of ${quantityToDecimal(maxOrderQuantity)} shares`,
+            };
+        }
 
-        // Get matchable orders from opposite side
-        const matchableOrders = this.getMatchableOrders(orderbook, order);
+        const lastPrice = state.lastPrices[request.outcome];
+        if (priceBand !== null && request.price !== undefined && lastPrice !== null &&
+            Math.abs(request.price - lastPrice) > priceBand) {
+            return {
+                riskCode: 'PRICE_BAND',
+                error: `Price must be within ${usdcToDecimal(priceBand)} USDC of the last trade price (${usdcToDecimal(lastPrice)} USDC)`,
+            };
+        }
 
-        for (const makerOrder of matchableOrders) {
-            if (remainingQty <= 0) break;
+        if (maxOpenOrders !== null && mayRest(request) &&
+            (state.balances[request.userId]?.openOrders ?? 0) >= maxOpenOrders) {
+            return {
+                riskCode: 'MAX_OPEN_ORDERS',
+                error: `Open order limit of ${maxOpenOrders} reached`,
+            };
+        }
 
-            // Check if prices can match
-            if (!this.canMatch(order, makerOrder)) break;
+        if (maxPosition !== null && request.side === 'BUY') {
+            const headroom = this.positionHeadroom(state, request.userId, request.outcome, maxPosition);
+            if ((request.quantity ?? LOT_SIZE) > headroom) {
+                return {
+                    riskCode: 'MAX_POSITION',
+                    error: `Position in ${request.outcome} would exceed the maximum of ${quantityToDecimal(maxPosition)} shares`,
+                };
+            }
+        }
 
-            // Calculate fill quantity
-            const fillQty = Math.min(remainingQty, makerOrder.remainingQuantity);
-            const fillPrice = makerOrder.price; // Price-time priority: taker gets maker's price
+        return null;
+    }
 
-            // Create fill
-            const fill: Fill = {
-                id: generateId(),
-                makerOrderId: makerOrder.id,
-                takerOrderId: order.id,
-                price: fillPrice,
-                quantity: fillQty,
-                timestamp: Date.now(),
-                outcome: order.outcome,
+    /**
+     * Shares a user may still buy of an outcome under a position limit:
+     * the limit less shares held and open buy orders (Infinity without one)
+     */
+    private positionHeadroom(
+        state: PredictionMarketState,
+        userId: string,
+        outcome: Outcome,
+        maxPosition: number | null
+    ): number {
+        if (maxPosition === null) {
+            return Infinity;
+        }
+        const balance = state.balances[userId];
+        const held = balance?.shares[outcome] ?? 0;
+        const openBuys = balance?.openBuys[outcome] ?? 0;
+        return Math.max(0, maxPosition - held - openBuys);
+    }
+
+    /**
+     * Check whether the last trade price of a stop's outcome has reached its trigger
+     */
+    private isTriggered(
+        state: PredictionMarketState,
+        stop: { outcome: Outcome; side: OrderSide; triggerPrice: number }
+    ): boolean {
+        const lastPrice = state.lastPrices[stop.outcome];
+        if (lastPrice === null) {
+            return false;
+        }
+        return stop.side === 'BUY'
+            ? lastPrice >= stop.triggerPrice
+            : lastPrice <= stop.triggerPrice;
+    }
+
+    /**
+     * Release triggered stop orders into the matcher, oldest first
+     * Repeats until no trigger fires, so stops can cascade
+     */
+    private releaseTriggeredOrders(
+        state: PredictionMarketState,
+        now: number
+    ): { state: PredictionMarketState; triggeredOrders: TriggeredOrder[] } {
+        const triggeredOrders: TriggeredOrder[] = [];
+        const nextTriggered = (s: PredictionMarketState): Order | undefined =>
+            s.triggerOrders.find(o => this.isTriggered(s, { ...o, triggerPrice: o.triggerPrice! }));
+
+        let stop = nextTriggered(state);
+        while (stop) {
+            const stopOrder = stop;
+
+            // Remove from the trigger book and release its collateral
+            const released: PredictionMarketState = {
+                ...state,
+                triggerOrders: state.triggerOrders.filter(o => o.id !== stopOrder.id),
+                balances: this.lockCollateral(state.balances, stopOrder, -1, state.config),
             };
-            fills.push(fill);
 
-            // Update balances
-            balances = this.updateBalancesForFill(balances, order, makerOrder, fill);
+            const result = this.executeOrder(released, {
+                userId: stopOrder.userId,
+                outcome: stopOrder.outcome,
+                side: stopOrder.side,
+                type: stopOrder.type === 'STOP' ? 'MARKET' : 'LIMIT',
+                ...(stopOrder.type === 'STOP_LIMIT' && { price: stopOrder.price }),
+                quantity: stopOrder.remainingQuantity,
+                displayQuantity: stopOrder.displayQuantity,
+                timeInForce: stopOrder.timeInForce,
+                expiresAt: stopOrder.expiresAt,
+                selfTradePrevention: stopOrder.selfTradePrevention,
+            }, now, stopOrder.id);
 
-            // Update quantities
-            remainingQty -= fillQty;
-            makerOrder.remainingQuantity -= fillQty;
+            triggeredOrders.push({
+                order: result.order ?? { ...stopOrder, status: 'CANCELLED' },
+                fills: result.fills,
+                ...(result.error !== undefined && { error: result.error }),
+            });
 
-            // Update maker order status
-            if (makerOrder.remainingQuantity === 0) {
-                makerOrder.status = 'FILLED';
-                orderbook = this.removeFromOrderbook(orderbook, makerOrder);
-            }
+            state = result.success
+                ? result.newState
+                : emit(released, cancelledEvent(stopOrder, stopOrder.remainingQuantity, 'REJECTED', state.sequence + 1));
+            stop = nextTriggered(state);
         }
 
-        const updatedOrder: Order = {
-            ...order,
-            remainingQuantity: remainingQty,
-        };
-
-        return {
-            fills,
-            updatedOrder,
-            updatedOrderbook: orderbook,
-            updatedBalances: balances,
-        };
+        return { state, triggeredOrders };
     }
 
     /**
-     * Get orders that could match with incoming order
-     * Sorted by price-time priority
+     * Worst acceptable price for a market order
+     * The tighter of worstPrice and maxSlippageBps from the best price on arrival,
+     * or the full price range if neither is set
      */
-    private getMatchableOrders(orderbook: Orderbook, order: Order): Order[] {
-        let orders: Order[];
+    private getMarketLimitPrice(state: PredictionMarketState, request: OrderRequest): number {
+        const isBuy = request.side === 'BUY';
+        let limit = request.worstPrice ?? (isBuy ? PRICE_PRECISION : 0);
 
-        if (order.side === 'BUY') {
-            // Buying YES: match against YES asks
-            // Alternatively: match against NO bids (binary constraint)
-            if (order.outcome === 'YES') {
-                orders = [...orderbook.yesAsks];
-                // Sort by price ascending (lowest ask first)
-                orders.sort((a, b) => a.price - b.price || a.timestamp - b.timestamp);
-            } else {
-                orders = [...orderbook.noAsks];
-                orders.sort((a, b) => a.price - b.price || a.timestamp - b.timestamp);
+        if (request.maxSlippageBps !== undefined) {
+            const probe = { outcome: request.outcome, side: request.side } as Order;
+            const bestMaker = this.getBestMaker(state.orderbook, probe, state.outcomes);
+            let bestPrice = bestMaker ? this.effectivePrice(probe, bestMaker) : null;
+            if (state.amm) {
+                // The AMM quotes continuously; measure slippage from whichever is better
+                const ammPrice = lmsrPrices(state.amm, state.outcomes)[request.outcome];
+                bestPrice = bestPrice === null
+                    ? ammPrice
+                    : isBuy ? Math.min(bestPrice, ammPrice) : Math.max(bestPrice, ammPrice);
             }
-        } else {
-            // Selling YES: match against YES bids
-            if (order.outcome === 'YES') {
-                orders = [...orderbook.yesBids];
-                // Sort by price descending (highest bid first)
-                orders.sort((a, b) => b.price - a.price || a.timestamp - b.timestamp);
-            } else {
-                orders = [...orderbook.noBids];
-                orders.sort((a, b) => b.price - a.price || a.timestamp - b.timestamp);
+            if (bestPrice !== null) {
+                const slippage = bpsOf(bestPrice, request.maxSlippageBps, 'DOWN');
+                // Snap inward to the tick grid so the limit never exceeds the slippage
+                const slippageLimit = isBuy
+                    ? Math.min(roundDownToTick(bestPrice + slippage), PRICE_PRECISION)
+                    : Math.max(roundUpToTick(bestPrice - slippage), 0);
+                limit = isBuy ? Math.min(limit, slippageLimit) : Math.max(limit, slippageLimit);
             }
         }
 
-        return orders;
+        return limit;
     }
 
     /**
-     * Check if two orders can match
+     * Match order against orderbook
+     */
+    private matchOrder(
+        state: PredictionMarketState,
+        order: Order,
+        options: {
+            selfTradePrevention: SelfTradePreventionMode;
+            /** Maximum USDC the taker may spend (market buys) */
+            budget?: number;
+        },
+        now: number
+    ): {
+        fills: Fill[];
+        updatedOrder: Order;
+        updatedOrderbook: Orderbook;
+        updatedBalances: Record<string, UserBalance>;
+        updatedAmm: AmmState | null;
+        events: MatchingEvent[];
+        selfTradeCancellations: SelfTradeCancellation[];
+        takerCancelled: boolean;
+        stopReason: MarketStopReason;
+    } {
+        const { selfTradePrevention } = options;
+        const { fees } = state.config;
+        let takerFeesPaid = 0;
+        const fills: Fill[] = [];
+        const selfTradeCancellations: SelfTradeCancellation[] = [];
+        let takerCancelled = false;
+        let remainingBudget = options.budget;
+        let stopReason: MarketStopReason = 'LIQUIDITY';
+        let remainingQty = order.quantity;
+        let balances = { ...state.balances };
+        let orderbook = state.orderbook;
+        let amm = state.amm;
+        const events: MatchingEvent[] = [];
+        const sequence = state.sequence + 1;
+
+        // Walk the opposing liquidity best first, re-reading the book after each step
+        while (remainingQty > 0) {
+            const makerOrder = this.getBestMaker(orderbook, order, state.outcomes);
+
+            // Backstop liquidity: trade with the AMM while its price beats the best level
+            if (amm) {
+                const bound = makerOrder && this.canMatch(order, makerOrder)
+                    ? this.effectivePrice(order, makerOrder)
+                    : order.price;
+                const ammTrade = this.getAmmTrade(amm, state.outcomes, order, bound, remainingQty, remainingBudget);
+                if (ammTrade?.quantity === 0) {
+                    stopReason = 'BUDGET';
+                    break;
+                }
+                if (ammTrade) {
+                    const { quantity, usdc } = ammTrade;
+                    const { takerFee } = this.fillFees(fees, usdc, 0, fees.minFee - takerFeesPaid);
+                    takerFeesPaid += takerFee;
+
+                    const fill: Fill = {
+                        id: this.nextId(),
+                        makerOrderId: AMM_MAKER_ID,
+                        takerOrderId: order.id,
+                        price: mulDiv(usdc, PRICE_PRECISION, quantity, order.side === 'BUY' ? 'UP' : 'DOWN'),
+                        quantity,
+                        timestamp: now,
+                        outcome: order.outcome,
+                        fillType: 'AMM',
+                        takerFee,
+                        makerFee: 0,
+                    };
+                    fills.push(fill);
+                    events.push({ type: 'FILL', sequence, fill });
+                    ({ balances, amm } =
+                        this.settleAmmFill(balances, amm, order, fill, usdc, fees.operatorId, state.outcomes));
+
+                    if (remainingBudget !== undefined) {
+                        remainingBudget -= usdc;
+                    }
+                    remainingQty -= quantity;
+                    if (remainingQty === 0) {
+                        stopReason = 'FILLED';
+                    }
+                    if (ammTrade.budgetLimited) {
+                        stopReason = 'BUDGET';
+                        break;
+                    }
+                    continue;
+                }
+            }
+
+            if (!makerOrder) {
+                // The AMM always quotes, so it stopped at the order's price limit
+                if (amm) {
+                    stopReason = 'PRICE_LIMIT';
+                }
+                break;
+            }
+
+            // Check if prices can match
+            if (!this.canMatch(order, makerOrder)) {
+                stopReason = 'PRICE_LIMIT';
+                break;
+            }
+
+            // Self-trade prevention
+            if (makerOrder.userId === order.userId && selfTradePrevention !== 'NONE') {
+                const cancelTaker = selfTradePrevention === 'CANCEL_NEWEST' ||
+                    selfTradePrevention === 'CANCEL_BOTH';
+                const cancelMaker = selfTradePrevention === 'CANCEL_OLDEST' ||
+                    selfTradePrevention === 'CANCEL_BOTH';
+
+                if (cancelMaker) {
+                    selfTradeCancellations.push({
+                        orderId: makerOrder.id,
+                        quantity: makerOrder.remainingQuantity,
+                    });
+                    orderbook = removeOrder(orderbook, makerOrder.id);
+                    balances = this.lockCollateral(balances, makerOrder, -1, state.config);
+                    events.push(cancelledEvent(makerOrder, makerOrder.remainingQuantity, 'SELF_TRADE', sequence));
+                }
+
+                if (cancelTaker) {
+                    selfTradeCancellations.push({ orderId: order.id, quantity: remainingQty });
+                    takerCancelled = true;
+                    stopReason = 'SELF_TRADE';
+                    break;
+                }
+
+                if (selfTradePrevention === 'DECREMENT_AND_CANCEL') {
+                    const overlap = Math.min(remainingQty, makerOrder.remainingQuantity);
+                    selfTradeCancellations.push({ orderId: order.id, quantity: overlap });
+                    selfTradeCancellations.push({ orderId: makerOrder.id, quantity: overlap });
+                    remainingQty -= overlap;
+                    if (remainingQty === 0) {
+                        stopReason = 'SELF_TRADE';
+                    }
+                    events.push(
+                        cancelledEvent(order, overlap, 'SELF_TRADE', sequence),
+                        cancelledEvent(makerOrder, overlap, 'SELF_TRADE', sequence)
+                    );
+
+                    const updatedMaker: Order = {
+                        ...makerOrder,
+                        remainingQuantity: makerOrder.remainingQuantity - overlap,
+                    };
+                    if (updatedMaker.visibleQuantity !== undefined) {
+                        updatedMaker.visibleQuantity = Math.min(updatedMaker.visibleQuantity, updatedMaker.remainingQuantity);
+                    }
+                    orderbook = updatedMaker.remainingQuantity === 0
+                        ? removeOrder(orderbook, updatedMaker.id)
+                        : replaceOrder(orderbook, updatedMaker);
+                    balances = this.lockCollateral(balances, makerOrder, -1, state.config);
+                    if (updatedMaker.remainingQuantity > 0) {
+                        balances = this.lockCollateral(balances, updatedMaker, 1, state.config);
+                    }
+                }
+
+                continue;
+            }
+
+            // Price-time priority: taker gets maker's price, expressed in the taker's outcome
+            const fillPrice = this.effectivePrice(order, makerOrder);
+
+            // Calculate fill quantity against the maker's visible slice,
+            // capped by what the remaining budget buys
+            const uncappedQty = Math.min(remainingQty, visibleQuantity(makerOrder));
+            let fillQty = uncappedQty;
+            if (remainingBudget !== undefined) {
+                fillQty = Math.min(
+                    fillQty,
+                    roundDownToLot(mulDiv(remainingBudget, PRICE_PRECISION, fillPrice, 'DOWN'))
+                );
+                if (fillQty === 0) {
+                    stopReason = 'BUDGET';
+                    break;
+                }
+                remainingBudget -= notional(fillPrice, fillQty, 'UP');
+            }
+
+            // Fees on each side's notional; the minimum fee tops up the taker's first fills
+            const fillType = this.getFillType(order, makerOrder);
+            const { takerNotional, makerNotional } = this.fillNotionals(order, fillPrice, fillQty, fillType);
+            const { takerFee, makerFee } =
+                this.fillFees(fees, takerNotional, makerNotional, fees.minFee - takerFeesPaid);
+            takerFeesPaid += takerFee;
+
+            // Create fill
+            const fill: Fill = {
+                id: this.nextId(),
+                makerOrderId: makerOrder.id,
+                takerOrderId: order.id,
+                price: fillPrice,
+                quantity: fillQty,
+                timestamp: now,
+                outcome: order.outcome,
+                fillType,
+                takerFee,
+                makerFee,
+            };
+            fills.push(fill);
+            events.push({ type: 'FILL', sequence, fill });
+
+            // Release the maker's collateral before settling the fill
+            balances = this.lockCollateral(balances, makerOrder, -1, state.config);
+
+            // Update balances
+            balances = this.updateBalancesForFill(balances, order, makerOrder, fill, fees.operatorId, state.outcomes);
+
+            // Update quantities (copy the maker so the previous state is untouched)
+            remainingQty -= fillQty;
+            if (remainingQty === 0) {
+                stopReason = 'FILLED';
+            }
+            let updatedMaker: Order = {
+                ...makerOrder,
+                remainingQuantity: makerOrder.remainingQuantity - fillQty,
+                ...(makerOrder.visibleQuantity !== undefined && {
+                    visibleQuantity: makerOrder.visibleQuantity - fillQty,
+                }),
+            };
+
+            // Update maker order status
+            if (updatedMaker.remainingQuantity === 0) {
+                orderbook = removeOrder(orderbook, updatedMaker.id);
+            } else {
+                updatedMaker.status = 'PARTIAL';
+                balances = this.lockCollateral(balances, updatedMaker, 1, state.config);
+
+                if (updatedMaker.visibleQuantity === 0) {
+                    // Iceberg slice exhausted: refill from the reserve at the back of the queue
+                    updatedMaker = refillSlice({ ...updatedMaker, timestamp: now });
+                    orderbook = requeueOrder(orderbook, updatedMaker);
+                } else {
+                    orderbook = replaceOrder(orderbook, updatedMaker);
+                }
+            }
+
+            // Budget ran out part-way through this maker
+            if (fillQty < uncappedQty) {
+                stopReason = 'BUDGET';
+                break;
+            }
+        }
+
+        const updatedOrder: Order = {
+            ...order,
+            remainingQuantity: remainingQty,
+        };
+
+        return {
+            fills,
+            updatedOrder,
+            updatedOrderbook: orderbook,
+            updatedBalances: balances,
+            updatedAmm: amm,
+            events,
+            selfTradeCancellations,
+            takerCancelled,
+            stopReason,
+        };
+    }
+
+    /**
+     * Best resting order an incoming order could match, by price-time priority
+     *
+     * Besides the opposite side of the same outcome, in two-outcome markets the
+     * same side of the other outcome is matchable under the binary constraint:
+     * - Buying YES at p crosses NO bids at >= 1 - p (mints a complete set)
+     * - Selling YES at p crosses NO asks at <= 1 - p (burns a complete set)
+     * Categorical markets match each outcome's book on its own
+     */
+    private getBestMaker(orderbook: Orderbook, order: Order, outcomes: Outcome[]): Order | undefined {
+        const complement = complementOf(outcomes, order.outcome);
+        const opposite: OrderSide = order.side === 'BUY' ? 'SELL' : 'BUY';
+
+        const direct = bestOrder(getBookSide(orderbook, order.outcome, opposite));
+        const implied = complement === null
+            ? undefined
+            : bestOrder(getBookSide(orderbook, complement, order.side));
+        if (!direct || !implied) {
+            return direct ?? implied;
+        }
+
+        const directPrice = this.effectivePrice(order, direct);
+        const impliedPrice = this.effectivePrice(order, implied);
+        if (directPrice !== impliedPrice) {
+            // Buyers take the lowest ask, sellers the highest bid
+            return (order.side === 'BUY') === (directPrice < impliedPrice) ? direct : implied;
+        }
+        return getPriority(orderbook, implied.id) < getPriority(orderbook, direct.id) ? implied : direct;
+    }
+
+    /**
+     * Price at which a post-only order can rest without crossing
+     * Returns the order's own price if it does not cross, the price one tick
+     * behind the best opposing level (or the AMM's price, rounded away from
+     * it) if it does, or null if that falls outside the valid price range
+     */
+    private getPostOnlyPrice(state: PredictionMarketState, order: Order): number | null {
+        const isBuy = order.side === 'BUY';
+        const bestMaker = this.getBestMaker(state.orderbook, order, state.outcomes);
+        const crossesBook = bestMaker !== undefined && this.canMatch(order, bestMaker);
+
+        // The AMM fills any order priced through its marginal price
+        const ammPrice = state.amm ? lmsrPrices(state.amm, state.outcomes)[order.outcome] : null;
+        const crossesAmm = ammPrice !== null && (isBuy ? order.price > ammPrice : order.price < ammPrice);
+
+        if (!crossesBook && !crossesAmm) {
+            return order.price;
+        }
+
+        let repriced = order.price;
+        if (crossesBook) {
+            const bestPrice = this.effectivePrice(order, bestMaker!);
+            repriced = isBuy ? bestPrice - TICK_SIZE : bestPrice + TICK_SIZE;
+        }
+        if (crossesAmm) {
+            repriced = isBuy
+                ? Math.min(repriced, roundDownToTick(ammPrice!))
+                : Math.max(repriced, roundUpToTick(ammPrice!));
+        }
+
+        return repriced > 0 && repriced < PRICE_PRECISION ? repriced : null;
+    }
+
+    /**
+     * Maker's price expressed in the taker's outcome
+     * Complementary orders are converted via YES + NO = 1
+     */
+    private effectivePrice(takerOrder: Order, makerOrder: Order): number {
+        return makerOrder.outcome === takerOrder.outcome
+            ? makerOrder.price
+            : complementPrice(makerOrder.price);
+    }
+
+    /**
+     * Determine how a fill between taker and maker settles
+     */
+    private getFillType(takerOrder: Order, makerOrder: Order): FillType {
+        if (makerOrder.outcome === takerOrder.outcome) {
+            return 'TRANSFER';
+        }
+        return takerOrder.side === 'BUY' ? 'MINT' : 'BURN';
+    }
+
+    /**
+     * Check if two orders can match
      * Implements binary constraint: YES + NO = 1
      */
     private canMatch(takerOrder: Order, makerOrder: Order): boolean {
+        const makerPrice = this.effectivePrice(takerOrder, makerOrder);
         if (takerOrder.side === 'BUY') {
             // Buyer willing to pay at least maker's ask
-            return takerOrder.price >= makerOrder.price;
+            return takerOrder.price >= makerPrice;
         } else {
             // Seller willing to accept at most maker's bid
-            return takerOrder.price <= makerOrder.price;
+            return takerOrder.price <= makerPrice;
         }
     }
 
@@ -337,101 +1440,678 @@ export class PredictionMarketMatcher {
         balances: Record<string, UserBalance>,
         takerOrder: Order,
         makerOrder: Order,
-        fill: Fill
+        fill: Fill,
+        operatorId: string,
+        outcomes: Outcome[]
     ): Record<string, UserBalance> {
         const newBalances = { ...balances };
         const takerBalance = { ...newBalances[takerOrder.userId] };
-        const makerBalance = { ...newBalances[makerOrder.userId] };
+        // Self-matches must read and write the same balance copy
+        const makerBalance = makerOrder.userId === takerOrder.userId
+            ? takerBalance
+            : { ...newBalances[makerOrder.userId] };
 
-        const usdcAmount = fill.price * fill.quantity;
-        const outcome = fill.outcome.toLowerCase() as 'yes' | 'no';
+        const { takerNotional: usdcAmount, makerNotional: makerUsdcAmount } =
+            this.fillNotionals(takerOrder, fill.price, fill.quantity, fill.fillType);
+        const addShares = (balance: UserBalance, outcome: Outcome, quantity: number) => {
+            balance.shares = { ...balance.shares, [outcome]: balance.shares[outcome] + quantity };
+        };
 
-        if (takerOrder.side === 'BUY') {
-            // Taker buys tokens: pays USDC, receives outcome tokens
-            takerBalance.usdc -= usdcAmount;
-            takerBalance[outcome] += fill.quantity;
+        switch (fill.fillType) {
+            case 'TRANSFER':
+                if (takerOrder.side === 'BUY') {
+                    // Taker buys tokens: pays USDC, receives outcome tokens
+                    takerBalance.usdc -= usdcAmount;
+                    addShares(takerBalance, takerOrder.outcome, fill.quantity);
 
-            // Maker sells tokens: receives USDC, loses outcome tokens
-            makerBalance.usdc += usdcAmount;
-            makerBalance[outcome] -= fill.quantity;
-        } else {
-            // Taker sells tokens: receives USDC, loses outcome tokens
-            takerBalance.usdc += usdcAmount;
-            takerBalance[outcome] -= fill.quantity;
+                    // Maker sells tokens: receives USDC, loses outcome tokens
+                    makerBalance.usdc += usdcAmount;
+                    addShares(makerBalance, makerOrder.outcome, -fill.quantity);
+                } else {
+                    // Taker sells tokens: receives USDC, loses outcome tokens
+                    takerBalance.usdc += usdcAmount;
+                    addShares(takerBalance, takerOrder.outcome, -fill.quantity);
+
+                    // Maker buys tokens: pays USDC, receives outcome tokens
+                    makerBalance.usdc -= usdcAmount;
+                    addShares(makerBalance, makerOrder.outcome, fill.quantity);
+                }
+                break;
+
+            case 'MINT':
+                // Both buyers fund the complete set and receive their outcome
+                takerBalance.usdc -= usdcAmount;
+                addShares(takerBalance, takerOrder.outcome, fill.quantity);
+                makerBalance.usdc -= makerUsdcAmount;
+                addShares(makerBalance, makerOrder.outcome, fill.quantity);
+                break;
 
-            // Maker buys tokens: pays USDC, receives outcome tokens
-            makerBalance.usdc -= usdcAmount;
-            makerBalance[outcome] += fill.quantity;
+            case 'BURN':
+                // Both sellers surrender their outcome and split the released USDC
+                takerBalance.usdc += usdcAmount;
+                addShares(takerBalance, takerOrder.outcome, -fill.quantity);
+                makerBalance.usdc += makerUsdcAmount;
+                addShares(makerBalance, makerOrder.outcome, -fill.quantity);
+                break;
         }
 
+        // Deduct fees (a negative maker fee is a rebate)
+        takerBalance.usdc -= fill.takerFee;
+        makerBalance.usdc -= fill.makerFee;
+
         newBalances[takerOrder.userId] = takerBalance;
         newBalances[makerOrder.userId] = makerBalance;
 
+        // Credit the operator with the net fee
+        const netFee = fill.takerFee + fill.makerFee;
+        if (netFee !== 0) {
+            const operatorBalance = newBalances[operatorId] ?? createUserBalance(outcomes);
+            newBalances[operatorId] = { ...operatorBalance, usdc: operatorBalance.usdc + netFee };
+        }
+
         return newBalances;
     }
 
     /**
-     * Add order to orderbook
+     * What the AMM will trade with a taker before its price passes a bound
+     * (the best book level, or the taker's own limit), capped by the taker's
+     * remaining quantity and budget
+     * Returns null if the AMM cannot improve on the bound by a full lot, or a
+     * zero quantity if the budget does not stretch to one lot
      */
-    private addToOrderbook(orderbook: Orderbook, order: Order): Orderbook {
-        const newOrderbook = this.cloneOrderbook(orderbook);
+    private getAmmTrade(
+        amm: AmmState,
+        outcomes: Outcome[],
+        order: Order,
+        bound: number,
+        remainingQty: number,
+        budget: number | undefined
+    ): { quantity: number; usdc: number; budgetLimited: boolean } | null {
+        // The AMM's price never reaches 0 or 1
+        const target = Math.min(Math.max(bound, TICK_SIZE), PRICE_PRECISION - TICK_SIZE);
+        const tradeValue = (quantity: number) =>
+            lmsrTradeValue(amm, outcomes, order.outcome, order.side, quantity);
 
-        if (order.outcome === 'YES') {
-            if (order.side === 'BUY') {
-                newOrderbook.yesBids.push(order);
-                newOrderbook.yesBids.sort((a, b) => b.price - a.price || a.timestamp - b.timestamp);
-            } else {
-                newOrderbook.yesAsks.push(order);
-                newOrderbook.yesAsks.sort((a, b) => a.price - b.price || a.timestamp - b.timestamp);
+        let quantity = Math.min(
+            remainingQty,
+            roundDownToLot(lmsrQuantityToPrice(amm, outcomes, order.outcome, order.side, target))
+        );
+        if (quantity === 0) {
+            return null;
+        }
+
+        // Largest whole number of lots the budget pays for
+        let budgetLimited = false;
+        if (budget !== undefined && tradeValue(quantity) > budget) {
+            budgetLimited = true;
+            let affordable = 0;
+            let unaffordable = quantity / LOT_SIZE;
+            while (unaffordable - affordable > 1) {
+                const mid = (affordable + unaffordable) >>> 1;
+                if (tradeValue(mid * LOT_SIZE) <= budget) {
+                    affordable = mid;
+                } else {
+                    unaffordable = mid;
+                }
             }
+            quantity = affordable * LOT_SIZE;
+            if (quantity === 0) {
+                return { quantity, usdc: 0, budgetLimited };
+            }
+        }
+
+        const usdc = tradeValue(quantity);
+        // The subsidy covers every sale in exact arithmetic; never pay out more than the AMM holds
+        if (order.side === 'SELL' && usdc > amm.subsidy + amm.collected) {
+            return null;
+        }
+        return { quantity, usdc, budgetLimited };
+    }
+
+    /**
+     * Settle a fill against the AMM: the taker swaps shares for USDC with it and
+     * pays the taker fee to the operator
+     */
+    private settleAmmFill(
+        balances: Record<string, UserBalance>,
+        amm: AmmState,
+        takerOrder: Order,
+        fill: Fill,
+        usdc: number,
+        operatorId: string,
+        outcomes: Outcome[]
+    ): { balances: Record<string, UserBalance>; amm: AmmState } {
+        const direction = takerOrder.side === 'BUY' ? 1 : -1;
+        const newBalances = { ...balances };
+
+        const takerBalance = { ...newBalances[takerOrder.userId] };
+        takerBalance.usdc -= direction * usdc + fill.takerFee;
+        takerBalance.shares = {
+            ...takerBalance.shares,
+            [fill.outcome]: takerBalance.shares[fill.outcome] + direction * fill.quantity,
+        };
+        newBalances[takerOrder.userId] = takerBalance;
+
+        if (fill.takerFee !== 0) {
+            const operatorBalance = newBalances[operatorId] ?? createUserBalance(outcomes);
+            newBalances[operatorId] = { ...operatorBalance, usdc: operatorBalance.usdc + fill.takerFee };
+        }
+
+        const updatedAmm: AmmState = {
+            ...amm,
+            inventory: { ...amm.inventory, [fill.outcome]: amm.inventory[fill.outcome] + direction * fill.quantity },
+            collected: amm.collected + direction * usdc,
+        };
+        return {
+            balances: newBalances,
+            amm: { ...updatedAmm, subsidyLoss: ammWorstCaseLoss(updatedAmm, outcomes) },
+        };
+    }
+
+    /**
+     * USDC amounts each side of a fill pays or receives, before fees
+     */
+    private fillNotionals(
+        takerOrder: Order,
+        price: number,
+        quantity: number,
+        fillType: FillType
+    ): { takerNotional: number; makerNotional: number } {
+        // Taker's USDC leg is rounded against the taker (see fixed-point.ts)
+        const takerNotional = notional(price, quantity, takerOrder.side === 'BUY' ? 'UP' : 'DOWN');
+        // For MINT / BURN the maker gets its share of the complete set's 1 USDC collateral
+        const makerNotional = fillType === 'TRANSFER'
+            ? takerNotional
+            : completeSetCollateral(quantity) - takerNotional;
+        return { takerNotional, makerNotional };
+    }
+
+    /**
+     * Fees for one fill
+     * The taker fee is topped up to minFeeDue; a rebate never exceeds the taker fee
+     */
+    private fillFees(
+        fees: FeeSchedule,
+        takerNotional: number,
+        makerNotional: number,
+        minFeeDue: number
+    ): { takerFee: number; makerFee: number } {
+        const takerFee = Math.max(bpsOf(takerNotional, fees.takerFeeBps, 'DOWN'), minFeeDue);
+        const makerFee = fees.makerFeeBps >= 0
+            ? bpsOf(makerNotional, fees.makerFeeBps, 'DOWN')
+            : -Math.min(bpsOf(makerNotional, -fees.makerFeeBps, 'DOWN'), takerFee);
+        return { takerFee, makerFee };
+    }
+
+    /**
+     * Lock (direction 1) or release (direction -1) the collateral a resting order reserves
+     * Buys reserve USDC at their limit price, sells reserve the outcome tokens
+     * Also counts the order among the user's open orders (for risk limits)
+     */
+    private lockCollateral(
+        balances: Record<string, UserBalance>,
+        order: Order,
+        direction: 1 | -1,
+        config: MarketConfig
+    ): Record<string, UserBalance> {
+        const balance = { ...balances[order.userId] };
+
+        if (order.side === 'BUY') {
+            // Resting buys also reserve the fee they may be charged: the maker fee,
+            // or in batch auctions, where any order may be the taker, the higher one
+            const { makerFeeBps, takerFeeBps } = config.fees;
+            const feeBps = config.matchingMode === 'BATCH_AUCTION'
+                ? Math.max(makerFeeBps, takerFeeBps)
+                : makerFeeBps;
+            const cost = notional(order.price, order.remainingQuantity, 'UP');
+            const feeReserve = feeBps > 0 ? bpsOf(cost, feeBps, 'DOWN') : 0;
+            balance.lockedUsdc += direction * (cost + feeReserve);
+            balance.openBuys = {
+                ...balance.openBuys,
+                [order.outcome]: balance.openBuys[order.outcome] + direction * order.remainingQuantity,
+            };
         } else {
-            if (order.side === 'BUY') {
-                newOrderbook.noBids.push(order);
-                newOrderbook.noBids.sort((a, b) => b.price - a.price || a.timestamp - b.timestamp);
-            } else {
-                newOrderbook.noAsks.push(order);
-                newOrderbook.noAsks.sort((a, b) => a.price - b.price || a.timestamp - b.timestamp);
+            balance.lockedShares = {
+                ...balance.lockedShares,
+                [order.outcome]: balance.lockedShares[order.outcome] + direction * order.remainingQuantity,
+            };
+        }
+        balance.openOrders += direction;
+
+        return { ...balances, [order.userId]: balance };
+    }
+
+    /**
+     * Remove GTD orders (resting or untriggered) whose expiry has passed
+     * Returns the same state if nothing expired
+     */
+    private removeExpiredOrders(
+        state: PredictionMarketState,
+        now: number
+    ): { state: PredictionMarketState; expiredOrderIds: string[] } {
+        const expiredOrderIds: string[] = [];
+        const events: MatchingEvent[] = [];
+        let newBalances = state.balances;
+        const release = (o: Order) => {
+            expiredOrderIds.push(o.id);
+            newBalances = this.lockCollateral(newBalances, o, -1, state.config);
+            events.push(cancelledEvent(o, o.remainingQuantity, 'EXPIRED', state.sequence + 1));
+        };
+
+        // Resting orders come off the book's expiry queue
+        const { orderbook: swept, expired } = removeExpired(state.orderbook, now);
+        expired.forEach(release);
+
+        const triggerOrders = state.triggerOrders.filter(o => {
+            if (o.timeInForce === 'GTD' && o.expiresAt !== undefined && o.expiresAt <= now) {
+                release(o);
+                return false;
             }
+            return true;
+        });
+
+        if (expiredOrderIds.length === 0) {
+            return { state, expiredOrderIds };
         }
 
-        return newOrderbook;
+        return {
+            state: {
+                ...emit(state, ...events),
+                orderbook: swept,
+                triggerOrders,
+                balances: newBalances,
+            },
+            expiredOrderIds,
+        };
     }
 
     /**
-     * Remove order from orderbook
+     * Sweep expired GTD orders out of the book
+     * Returns the same state if nothing expired
      */
-    private removeFromOrderbook(orderbook: Orderbook, order: Order): Orderbook {
-        const newOrderbook = this.cloneOrderbook(orderbook);
+    sweepExpiredOrders(state: PredictionMarketState): PredictionMarketState {
+        const now = this.clock();
+        const { state: swept, expiredOrderIds } = this.removeExpiredOrders(this.beginTransition(state), now);
 
-        if (order.outcome === 'YES') {
-            if (order.side === 'BUY') {
-                newOrderbook.yesBids = newOrderbook.yesBids.filter(o => o.id !== order.id);
-            } else {
-                newOrderbook.yesAsks = newOrderbook.yesAsks.filter(o => o.id !== order.id);
+        if (expiredOrderIds.length === 0) {
+            return state;
+        }
+
+        return commitTransition(state, swept, now);
+    }
+
+    /**
+     * Start an LMSR market maker with liquidity parameter b (micro-shares)
+     * The operator funds its worst-case loss, b * ln(N), from available USDC.
+     * Continuous markets only: batch auctions have no taker to route
+     */
+    startAmm(state: PredictionMarketState, liquidity: number): AmmStartResult {
+        const fail = (error: string): AmmStartResult => ({ success: false, error, newState: state });
+
+        if (state.status !== 'ACTIVE') {
+            return fail(`Market is ${state.status}. Cannot start an AMM.`);
+        }
+        if (state.amm) {
+            return fail('Market already has an AMM');
+        }
+        if (state.config.matchingMode !== 'CONTINUOUS') {
+            return fail('AMM requires continuous matching');
+        }
+        if (liquidity <= 0 || !isOnLot(liquidity)) {
+            return fail(`Liquidity must be a positive multiple of the lot size (${quantityToDecimal(LOT_SIZE)} shares)`);
+        }
+
+        const { operatorId } = state.config.fees;
+        const operatorBalance = state.balances[operatorId];
+        const subsidy = lmsrSubsidy(liquidity, state.outcomes.length);
+        const availableUSDC = operatorBalance ? operatorBalance.usdc - operatorBalance.lockedUsdc : 0;
+        if (!operatorBalance || availableUSDC < subsidy) {
+            return fail(`Insufficient operator USDC for the AMM subsidy. Need ${usdcToDecimal(subsidy).toFixed(6)}, available ${usdcToDecimal(availableUSDC).toFixed(6)}`);
+        }
+
+        return {
+            success: true,
+            newState: commitTransition(state, {
+                ...this.beginTransition(state),
+                amm: {
+                    liquidity,
+                    inventory: Object.fromEntries(state.outcomes.map(o => [o, 0])),
+                    subsidy,
+                    collected: 0,
+                    subsidyLoss: 0,
+                },
+                balances: {
+                    ...state.balances,
+                    [operatorId]: { ...operatorBalance, usdc: operatorBalance.usdc - subsidy },
+                },
+            }, this.clock()),
+        };
+    }
+
+    /**
+     * Turn USDC into complete sets: each set is one share of every outcome and
+     * costs 1 USDC (amount in micro-shares, on the lot grid)
+     */
+    mintCompleteSet(state: PredictionMarketState, userId: string, amount: number): CompleteSetResult {
+        return this.changeCompleteSets(state, userId, amount, 1);
+    }
+
+    /**
+     * Turn complete sets back into USDC: one share of every outcome redeems for 1 USDC
+     */
+    redeemCompleteSet(state: PredictionMarketState, userId: string, amount: number): CompleteSetResult {
+        return this.changeCompleteSets(state, userId, amount, -1);
+    }
+
+    /**
+     * Mint (direction 1) or redeem (direction -1) complete sets out of a user's
+     * available (unlocked) balance
+     */
+    private changeCompleteSets(
+        state: PredictionMarketState,
+        userId: string,
+        amount: number,
+        direction: 1 | -1
+    ): CompleteSetResult {
+        const fail = (error: string): CompleteSetResult => ({ success: false, error, newState: state });
+
+        if (state.status !== 'ACTIVE') {
+            return fail(`Market is ${state.status}. Complete sets cannot be ${direction === 1 ? 'minted' : 'redeemed'}.`);
+        }
+        const balance = state.balances[userId];
+        if (!balance) {
+            return fail('User not found. Please deposit first.');
+        }
+        if (amount <= 0 || !isOnLot(amount)) {
+            return fail(`Amount must be a positive multiple of the lot size (${quantityToDecimal(LOT_SIZE)} shares)`);
+        }
+
+        const collateral = completeSetCollateral(amount);
+        if (direction === 1) {
+            const availableUSDC = balance.usdc - balance.lockedUsdc;
+            if (availableUSDC < collateral) {
+                return fail(`Insufficient USDC. Need ${usdcToDecimal(collateral).toFixed(6)}, available ${usdcToDecimal(availableUSDC).toFixed(6)}`);
             }
         } else {
-            if (order.side === 'BUY') {
-                newOrderbook.noBids = newOrderbook.noBids.filter(o => o.id !== order.id);
-            } else {
-                newOrderbook.noAsks = newOrderbook.noAsks.filter(o => o.id !== order.id);
+            for (const outcome of state.outcomes) {
+                const tokens = balance.shares[outcome] - balance.lockedShares[outcome];
+                if (tokens < amount) {
+                    return fail(`Insufficient ${outcome} tokens. Need ${quantityToDecimal(amount)}, available ${quantityToDecimal(tokens)}`);
+                }
             }
         }
 
-        return newOrderbook;
+        return {
+            success: true,
+            newState: commitTransition(state, {
+                ...this.beginTransition(state),
+                balances: {
+                    ...state.balances,
+                    [userId]: {
+                        ...balance,
+                        usdc: balance.usdc - direction * collateral,
+                        shares: Object.fromEntries(
+                            state.outcomes.map(o => [o, balance.shares[o] + direction * amount])
+                        ),
+                    },
+                },
+            }, this.clock()),
+        };
     }
 
     /**
-     * Clone orderbook (immutable update)
+     * Clear the current batch auction once its interval has elapsed
+     *
+     * Every resting order takes part. Two-outcome markets clear as one auction
+     * priced in the first outcome, with the other outcome's orders read at the
+     * complement price; categorical markets run one auction per outcome. Each
+     * auction clears at the tick that maximizes matched volume, then minimizes
+     * the demand/supply imbalance, then sits in the middle of the remaining
+     * ticks. The short side fills in full and the long side by price, then
+     * arrival. IOC remainders are cancelled and the whole batch is written as
+     * one state transition.
+     * Returns null if no batch is due
      */
-    private cloneOrderbook(orderbook: Orderbook): Orderbook {
+    runBatchAuction(state: PredictionMarketState): BatchAuctionResult | null {
+        const now = this.clock();
+        const { batch } = state;
+        if (!batch || state.status !== 'ACTIVE' || now < batch.openedAt + state.config.batchIntervalMs) {
+            return null;
+        }
+
+        const { state: sweptState, expiredOrderIds } = this.removeExpiredOrders(this.beginTransition(state), now);
+        const { config, outcomes } = sweptState;
+        const sequence = state.sequence + 1;
+        const events: MatchingEvent[] = [];
+        const priority = (o: Order) => getPriority(sweptState.orderbook, o.id);
+        const restingOrders = listOrders(sweptState.orderbook);
+        const auctions = outcomes.length === 2 ? [outcomes[0]] : outcomes;
+
+        let orderbook = sweptState.orderbook;
+        let balances = sweptState.balances;
+        const fills: Fill[] = [];
+        const selfTradeCancellations: SelfTradeCancellation[] = [];
+        const clearingPrices: Record<Outcome, number> = {};
+
+        for (const outcome of auctions) {
+            const complement = complementOf(outcomes, outcome);
+            const orders = restingOrders.filter(o => o.outcome === outcome || o.outcome === complement);
+            const clearing = this.getClearingPrice(orders, outcome);
+            if (!clearing) {
+                continue;
+            }
+            clearingPrices[outcome] = clearing.price;
+            if (complement !== null) {
+                clearingPrices[complement] = complementPrice(clearing.price);
+            }
+
+            const demand = this.allocateBatchSide(
+                orders.filter(o => isDemand(o, outcome) && priceIn(o, outcome) >= clearing.price),
+                outcome,
+                true,
+                clearing.volume,
+                priority
+            );
+            const supply = this.allocateBatchSide(
+                orders.filter(o => !isDemand(o, outcome) && priceIn(o, outcome) <= clearing.price),
+                outcome,
+                false,
+                clearing.volume,
+                priority
+            );
+
+            // Take quantity off a resting order without trading it
+            const current = new Map(orders.map(o => [o.id, o]));
+            const cancelSelfTrade = (order: Order, quantity: number) => {
+                const updated: Order = { ...order, remainingQuantity: order.remainingQuantity - quantity };
+                current.set(order.id, updated);
+                balances = this.lockCollateral(balances, order, -1, config);
+                if (updated.remainingQuantity === 0) {
+                    orderbook = removeOrder(orderbook, order.id);
+                } else {
+                    balances = this.lockCollateral(balances, updated, 1, config);
+                    orderbook = replaceOrder(orderbook, updated);
+                }
+                events.push(cancelledEvent(order, quantity, 'SELF_TRADE', sequence));
+                selfTradeCancellations.push({ orderId: order.id, quantity });
+            };
+
+            // Pair demand with supply in allocation order; each pair settles as one fill
+            let d = 0;
+            let s = 0;
+            while (d < demand.length && s < supply.length) {
+                const buyer = current.get(demand[d].orderId)!;
+                const seller = current.get(supply[s].orderId)!;
+                const quantity = Math.min(demand[d].quantity, supply[s].quantity);
+
+                // The later arrival of the pair is the taker
+                const sellerIsTaker = priority(seller) > priority(buyer);
+                const taker = sellerIsTaker ? seller : buyer;
+                const maker = sellerIsTaker ? buyer : seller;
+
+                // Self-trade prevention under the market's mode, with the taker as the newest order
+                const { selfTradePrevention } = config;
+                if (buyer.userId === seller.userId && selfTradePrevention !== 'NONE') {
+                    if (selfTradePrevention === 'DECREMENT_AND_CANCEL') {
+                        cancelSelfTrade(buyer, quantity);
+                        cancelSelfTrade(seller, quantity);
+                        demand[d].quantity -= quantity;
+                        supply[s].quantity -= quantity;
+                    } else {
+                        const cancelTaker = selfTradePrevention !== 'CANCEL_OLDEST';
+                        const cancelMaker = selfTradePrevention !== 'CANCEL_NEWEST';
+                        for (const order of [...(cancelTaker ? [taker] : []), ...(cancelMaker ? [maker] : [])]) {
+                            cancelSelfTrade(order, order.remainingQuantity);
+                            (order === buyer ? demand[d] : supply[s]).quantity = 0;
+                        }
+                    }
+                    if (demand[d].quantity === 0) d++;
+                    if (supply[s].quantity === 0) s++;
+                    continue;
+                }
+                const price = clearingPrices[taker.outcome];
+                const fillType = this.getFillType(taker, maker);
+                const { takerNotional, makerNotional } = this.fillNotionals(taker, price, quantity, fillType);
+                const { takerFee, makerFee } = this.fillFees(config.fees, takerNotional, makerNotional, 0);
+
+                const fill: Fill = {
+                    id: this.nextId(),
+                    makerOrderId: maker.id,
+                    takerOrderId: taker.id,
+                    price,
+                    quantity,
+                    timestamp: now,
+                    outcome: taker.outcome,
+                    fillType,
+                    takerFee,
+                    makerFee,
+                    batchId: batch.id,
+                };
+                fills.push(fill);
+                events.push({ type: 'FILL', sequence, fill });
+
+                // Settle with both orders' collateral released, then re-lock what remains
+                balances = this.lockCollateral(balances, buyer, -1, config);
+                balances = this.lockCollateral(balances, seller, -1, config);
+                balances = this.updateBalancesForFill(
+                    balances, taker, maker, fill, config.fees.operatorId, outcomes
+                );
+                for (const order of [buyer, seller]) {
+                    const updated: Order = { ...order, remainingQuantity: order.remainingQuantity - quantity };
+                    current.set(order.id, updated);
+                    if (updated.remainingQuantity === 0) {
+                        orderbook = removeOrder(orderbook, order.id);
+                    } else {
+                        updated.status = 'PARTIAL';
+                        balances = this.lockCollateral(balances, updated, 1, config);
+                        orderbook = replaceOrder(orderbook, updated);
+                    }
+                }
+
+                demand[d].quantity -= quantity;
+                supply[s].quantity -= quantity;
+                if (demand[d].quantity === 0) d++;
+                if (supply[s].quantity === 0) s++;
+            }
+        }
+
+        // IOC orders take part in a single batch
+        const cancelledOrderIds: string[] = [];
+        for (const order of listOrders(orderbook)) {
+            if (order.timeInForce === 'IOC') {
+                cancelledOrderIds.push(order.id);
+                orderbook = removeOrder(orderbook, order.id);
+                balances = this.lockCollateral(balances, order, -1, config);
+                events.push(cancelledEvent(order, order.remainingQuantity, 'UNFILLED', sequence));
+            }
+        }
+
         return {
-            yesBids: [...orderbook.yesBids],
-            yesAsks: [...orderbook.yesAsks],
-            noBids: [...orderbook.noBids],
-            noAsks: [...orderbook.noAsks],
+            batchId: batch.id,
+            clearingPrices,
+            fills,
+            cancelledOrderIds,
+            expiredOrderIds,
+            ...(selfTradeCancellations.length > 0 && { selfTradeCancellations }),
+            newState: commitTransition(state, {
+                ...emit(sweptState, ...events),
+                orderbook,
+                balances,
+                batch: null,
+                ...appendFills(state, fills),
+                lastPrices: updateLastPrices(outcomes, sweptState.lastPrices, fills),
+            }, now),
         };
     }
 
+    /**
+     * Uniform clearing price of an auction, in terms of its outcome, and the volume it matches
+     * Returns null if demand and supply do not cross
+     */
+    private getClearingPrice(orders: Order[], outcome: Outcome): { price: number; volume: number } | null {
+        const ticks = PRICE_PRECISION / TICK_SIZE;
+        const demandAt = new Array<number>(ticks + 1).fill(0);
+        const supplyAt = new Array<number>(ticks + 1).fill(0);
+        for (const order of orders) {
+            const tick = priceIn(order, outcome) / TICK_SIZE;
+            (isDemand(order, outcome) ? demandAt : supplyAt)[tick] += order.remainingQuantity;
+        }
+
+        // Demand at a tick bids at or above it, supply offers at or below it
+        for (let t = ticks - 1; t >= 0; t--) {
+            demandAt[t] += demandAt[t + 1];
+        }
+
+        let supply = 0;
+        let bestVolume = 0;
+        let bestImbalance = Infinity;
+        let candidates: number[] = [];
+        for (let t = 1; t < ticks; t++) {
+            supply += supplyAt[t];
+            const volume = Math.min(demandAt[t], supply);
+            const imbalance = Math.abs(demandAt[t] - supply);
+            if (volume > bestVolume || (volume === bestVolume && imbalance < bestImbalance)) {
+                bestVolume = volume;
+                bestImbalance = imbalance;
+                candidates = [t];
+            } else if (volume === bestVolume && imbalance === bestImbalance) {
+                candidates.push(t);
+            }
+        }
+
+        if (bestVolume === 0) {
+            return null;
+        }
+        return { price: candidates[(candidates.length - 1) >>> 1] * TICK_SIZE, volume: bestVolume };
+    }
+
+    /**
+     * Share of an auction's volume each order on one side receives
+     * Best price first (highest demand, lowest supply), then arrival order
+     */
+    private allocateBatchSide(
+        orders: Order[],
+        outcome: Outcome,
+        demandSide: boolean,
+        volume: number,
+        priority: (order: Order) => number
+    ): { orderId: string; quantity: number }[] {
+        const sorted = [...orders].sort((a, b) =>
+            (demandSide ? priceIn(b, outcome) - priceIn(a, outcome) : priceIn(a, outcome) - priceIn(b, outcome)) ||
+            priority(a) - priority(b)
+        );
+
+        const allocations: { orderId: string; quantity: number }[] = [];
+        let remaining = volume;
+        for (const order of sorted) {
+            if (remaining === 0) break;
+            const quantity = Math.min(order.remainingQuantity, remaining);
+            allocations.push({ orderId: order.id, quantity });
+            remaining -= quantity;
+        }
+        return allocations;
+    }
+
     /**
      * Cancel an order
      */
@@ -440,83 +2120,300 @@ export class PredictionMarketMatcher {
         orderId: string,
         userId: string
     ): PredictionMarketState {
-        let orderbook = this.cloneOrderbook(state.orderbook);
-        let found = false;
+        // Look up the resting order by ID, falling back to the trigger book
+        const found = getOrder(state.orderbook, orderId) ??
+            state.triggerOrders.find(o => o.id === orderId);
+
+        if (!found || found.userId !== userId) {
+            return state; // Order not found, return unchanged state
+        }
+
+        const now = this.clock();
+        return commitTransition(state, {
+            ...emit(this.beginTransition(state), cancelledEvent(found, found.remainingQuantity, 'USER', state.sequence + 1)),
+            orderbook: removeOrder(state.orderbook, orderId),
+            triggerOrders: state.triggerOrders.filter(o => o.id !== orderId),
+            balances: this.lockCollateral(state.balances, found, -1, state.config),
+        }, now);
+    }
+
+    /**
+     * Cancel all of a user's resting and untriggered stop orders,
+     * optionally only for one outcome and/or side, in a single transition
+     */
+    cancelAllOrders(
+        state: PredictionMarketState,
+        userId: string,
+        filter: CancelAllFilter = {}
+    ): CancelAllResult {
+        const now = this.clock();
+        const cancelledOrderIds: string[] = [];
+        let balances = state.balances;
+        const events: MatchingEvent[] = [];
+
+        const matches = (o: Order): boolean =>
+            o.userId === userId &&
+            (filter.outcome === undefined || o.outcome === filter.outcome) &&
+            (filter.side === undefined || o.side === filter.side);
+
+        const release = (o: Order) => {
+            cancelledOrderIds.push(o.id);
+            balances = this.lockCollateral(balances, o, -1, state.config);
+            events.push(cancelledEvent(o, o.remainingQuantity, 'MASS_CANCEL', state.sequence + 1));
+        };
 
-        // Search and remove from all sides
-        const removeFromList = (orders: Order[]): Order[] => {
-            const idx = orders.findIndex(o => o.id === orderId && o.userId === userId);
-            if (idx !== -1) {
-                found = true;
-                return [...orders.slice(0, idx), ...orders.slice(idx + 1)];
+        let orderbook = state.orderbook;
+        for (const order of listOrders(state.orderbook).filter(matches)) {
+            release(order);
+            orderbook = removeOrder(orderbook, order.id);
+        }
+        const triggerOrders = state.triggerOrders.filter(o => {
+            if (matches(o)) {
+                release(o);
+                return false;
             }
-            return orders;
+            return true;
+        });
+
+        if (cancelledOrderIds.length === 0) {
+            return { cancelledOrderIds, newState: state };
+        }
+
+        return {
+            cancelledOrderIds,
+            newState: commitTransition(state, {
+                ...state,
+                orderbook,
+                triggerOrders,
+                balances,
+                events,
+            }, now),
         };
+    }
 
-        orderbook.yesBids = removeFromList(orderbook.yesBids);
-        orderbook.yesAsks = removeFromList(orderbook.yesAsks);
-        orderbook.noBids = removeFromList(orderbook.noBids);
-        orderbook.noAsks = removeFromList(orderbook.noAsks);
+    /**
+     * Amend a resting order
+     * - A quantity reduction at the same price is applied in place and keeps time priority
+     * - A price change or quantity increase cancels the order and submits a replacement
+     *   (new ID, new timestamp, same post-only and self-trade settings) in the same
+     *   state transition
+     * Untriggered stops cannot be amended. Closed orders are kept off the state,
+     * so history is required to tell filled and cancelled orders apart from
+     * unknown IDs; it must be up to date with state (StateManager passes its own)
+     */
+    amendOrder(
+        state: PredictionMarketState,
+        orderId: string,
+        userId: string,
+        amendment: AmendOrderRequest,
+        history: OrderHistory
+    ): AmendOrderResult {
+        const fail = (errorCode: AmendErrorCode, error: string): AmendOrderResult => ({
+            success: false,
+            error,
+            errorCode,
+            fills: [],
+            newState: state,
+        });
 
-        if (!found) {
-            return state; // Order not found, return unchanged state
+        const order = getOrder(state.orderbook, orderId);
+        if (!order) {
+            // Not on the book: an untriggered stop, a closed order or an unknown ID
+            const stop = state.triggerOrders.find(o => o.id === orderId);
+            const record = history.get(orderId);
+            const owner = stop?.userId ?? record?.order.userId;
+            if (owner !== undefined && owner !== userId) {
+                return fail('NOT_ORDER_OWNER', `Order ${orderId} does not belong to ${userId}`);
+            }
+            if (stop) {
+                return fail('ORDER_PENDING_TRIGGER', `Order ${orderId} is waiting for its trigger; cancel and re-place it instead`);
+            }
+            switch (record?.order.status) {
+                case 'FILLED':
+                    return fail('ORDER_FILLED', `Order ${orderId} is already filled`);
+                case 'CANCELLED':
+                    return fail('ORDER_CANCELLED', `Order ${orderId} is cancelled`);
+                default:
+                    return fail('ORDER_NOT_FOUND', `Order ${orderId} not found`);
+            }
+        }
+        if (order.userId !== userId) {
+            return fail('NOT_ORDER_OWNER', `Order ${orderId} does not belong to ${userId}`);
         }
+        if (state.status !== 'ACTIVE') {
+            return fail('INVALID_AMENDMENT', `Market is ${state.status}. Trading is not allowed.`);
+        }
+
+        const newPrice = amendment.price ?? order.price;
+        const newQuantity = amendment.quantity ?? order.remainingQuantity;
 
+        if (newQuantity <= 0 || !isOnLot(newQuantity)) {
+            return fail('INVALID_AMENDMENT', `Quantity must be a positive multiple of the lot size (${quantityToDecimal(LOT_SIZE)} shares)`);
+        }
+        if (newPrice <= 0 || newPrice >= PRICE_PRECISION || !isOnTick(newPrice)) {
+            return fail('INVALID_AMENDMENT', `Price must be a multiple of the tick size (${usdcToDecimal(TICK_SIZE)} USDC) between 0 and 1 USDC (exclusive)`);
+        }
+        if (newPrice === order.price && newQuantity === order.remainingQuantity) {
+            return fail('INVALID_AMENDMENT', 'Amendment does not change the order');
+        }
+
+        // Quantity reduction: amend in place, keep queue position
+        if (newPrice === order.price && newQuantity < order.remainingQuantity) {
+            const reduction = order.remainingQuantity - newQuantity;
+            const updatedOrder: Order = {
+                ...order,
+                quantity: order.quantity - reduction,
+                remainingQuantity: newQuantity,
+                ...(order.visibleQuantity !== undefined && {
+                    visibleQuantity: Math.min(order.visibleQuantity, newQuantity),
+                }),
+            };
+
+            let balances = this.lockCollateral(state.balances, order, -1, state.config);
+            balances = this.lockCollateral(balances, updatedOrder, 1, state.config);
+
+            const now = this.clock();
+            const newState = commitTransition(state, {
+                ...emit(this.beginTransition(state), cancelledEvent(order, reduction, 'AMENDED', state.sequence + 1)),
+                orderbook: replaceOrder(state.orderbook, updatedOrder),
+                balances,
+            }, now);
+            return {
+                success: true,
+                order: updatedOrder,
+                fills: [],
+                priorityKept: true,
+                events: newState.events,
+                newState,
+            };
+        }
+
+        // Price change or quantity increase: cancel and replace, losing priority
+        const now = this.clock();
+        const withoutOrder: PredictionMarketState = {
+            ...emit(this.beginTransition(state), cancelledEvent(order, order.remainingQuantity, 'AMENDED', state.sequence + 1)),
+            orderbook: removeOrder(state.orderbook, order.id),
+            balances: this.lockCollateral(state.balances, order, -1, state.config),
+        };
+
+        const result = this.placeOrder(withoutOrder, {
+            userId: order.userId,
+            outcome: order.outcome,
+            side: order.side,
+            type: 'LIMIT',
+            price: newPrice,
+            quantity: newQuantity,
+            ...(order.displayQuantity !== undefined && {
+                displayQuantity: Math.min(order.displayQuantity, newQuantity),
+            }),
+            timeInForce: order.timeInForce,
+            expiresAt: order.expiresAt,
+            postOnly: order.postOnly,
+            postOnlyMode: order.postOnlyMode,
+            selfTradePrevention: order.selfTradePrevention,
+        }, now);
+
+        if (!result.success) {
+            return {
+                ...fail('REJECTED', result.error ?? 'Replacement order rejected'),
+                ...(result.riskCode && { riskCode: result.riskCode }),
+            };
+        }
+
+        const newState = commitTransition(state, result.newState, now);
         return {
-            ...state,
-            orderbook,
-            sequence: state.sequence + 1,
-            timestamp: Date.now(),
+            ...result,
+            priorityKept: false,
+            replacedOrderId: order.id,
+            events: newState.events,
+            newState,
         };
     }
 
     /**
-     * Get aggregated orderbook display data
+     * Look up an open order, resting or untriggered, by ID
+     * Filled and cancelled orders are kept off the state: look them up in the
+     * order history (StateManager.getOrder), which is built from the journal
+     */
+    getOrder(state: PredictionMarketState, orderId: string): Order | undefined {
+        return getOrder(state.orderbook, orderId) ?? state.triggerOrders.find(o => o.id === orderId);
+    }
+
+    /**
+     * A user's resting orders, side by side in priority order, then their
+     * untriggered stop orders
+     * Closed orders are in the order history (see StateManager.getOrderHistory)
+     */
+    getOpenOrders(state: PredictionMarketState, userId: string): Order[] {
+        return [...listOrders(state.orderbook), ...state.triggerOrders].filter(o => o.userId === userId);
+    }
+
+    /**
+     * Get aggregated orderbook display data for one outcome (the first by default)
      */
-    getOrderbookDisplay(state: PredictionMarketState): OrderbookDisplay {
-        const aggregateOrders = (orders: Order[]): PriceLevel[] => {
+    getOrderbookDisplay(
+        state: PredictionMarketState,
+        outcome: Outcome = state.outcomes[0]
+    ): OrderbookDisplay {
+        // In two-outcome markets the other outcome's orders are shown at their
+        // implied price (1 - price): its asks act as bids, its bids as asks
+        // Book levels already hold only the visible slice of iceberg orders
+        const aggregateOrders = (bookSide: BookSide, impliedSide: BookSide): PriceLevel[] => {
             const levels = new Map<number, PriceLevel>();
 
-            for (const order of orders) {
-                const existing = levels.get(order.price);
+            const addLevel = (price: number, level: BookLevel) => {
+                const existing = levels.get(price);
                 if (existing) {
-                    existing.quantity += order.remainingQuantity;
-                    existing.orderCount += 1;
+                    existing.quantity += level.quantity;
+                    existing.orderCount += level.orders.length;
                 } else {
-                    levels.set(order.price, {
-                        price: order.price,
-                        quantity: order.remainingQuantity,
-                        orderCount: 1,
+                    levels.set(price, {
+                        price,
+                        quantity: level.quantity,
+                        orderCount: level.orders.length,
                     });
                 }
+            };
+
+            for (const level of bookSide) {
+                addLevel(level.price, level);
+            }
+            for (const level of impliedSide) {
+                addLevel(complementPrice(level.price), level);
             }
 
             return Array.from(levels.values());
         };
 
-        const yesBids = aggregateOrders(state.orderbook.yesBids)
+        const book = state.orderbook.books[outcome];
+        const complement = complementOf(state.outcomes, outcome);
+        const impliedBook = complement === null ? { bids: [], asks: [] } : state.orderbook.books[complement];
+
+        const bids = aggregateOrders(book.bids, impliedBook.asks)
             .sort((a, b) => b.price - a.price);
-        const yesAsks = aggregateOrders(state.orderbook.yesAsks)
+        const asks = aggregateOrders(book.asks, impliedBook.bids)
             .sort((a, b) => a.price - b.price);
 
-        const bestYesBid = yesBids.length > 0 ? yesBids[0].price : null;
-        const bestYesAsk = yesAsks.length > 0 ? yesAsks[0].price : null;
+        const bestBid = bids.length > 0 ? bids[0].price : null;
+        const bestAsk = asks.length > 0 ? asks[0].price : null;
 
-        const spread = bestYesBid !== null && bestYesAsk !== null
-            ? bestYesAsk - bestYesBid
+        const spread = bestBid !== null && bestAsk !== null
+            ? bestAsk - bestBid
             : null;
 
-        const midPrice = bestYesBid !== null && bestYesAsk !== null
-            ? (bestYesBid + bestYesAsk) / 2
+        const midPrice = bestBid !== null && bestAsk !== null
+            ? (bestBid + bestAsk) / 2
             : null;
 
         return {
-            yesBids,
-            yesAsks,
-            bestYesBid,
-            bestYesAsk,
+            outcome,
+            bids,
+            asks,
+            bestBid,
+            bestAsk,
             spread,
             midPrice,
+            ammPrice: state.amm ? lmsrPrices(state.amm, state.outcomes)[outcome] : null,
         };
     }
 }
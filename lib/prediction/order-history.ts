@@ -0,0 +1,110 @@
+/**
+ * Order history
+ *
+ * Keeps every accepted order with its status changes (OPEN → PARTIAL →
+ * FILLED / CANCELLED) after it leaves the book, so any order can be traced
+ * from acceptance to its last fill or cancellation. The history lives off the
+ * signed state: it is rebuilt from each transition's events (StateManager
+ * applies them as it goes), so the state only carries open orders.
+ */
+
+import type { MatchingEvent, OrderRecord, OrderStatusChange } from './types';
+import { AMM_MAKER_ID } from './types';
+
+/**
+ * Order records built from matching events
+ */
+export class OrderHistory {
+    private records: Map<string, OrderRecord> = new Map();
+    private byUser: Map<string, string[]> = new Map();
+
+    /**
+     * Look up an order's record by ID
+     */
+    get(orderId: string): OrderRecord | undefined {
+        return this.records.get(orderId);
+    }
+
+    /**
+     * A user's order records, oldest first
+     */
+    listUserRecords(userId: string): OrderRecord[] {
+        return (this.byUser.get(userId) ?? []).map(id => this.records.get(id)!);
+    }
+
+    /**
+     * Apply the events of one transition, made at timestamp
+     */
+    apply(events: MatchingEvent[], timestamp: number): void {
+        for (const event of events) {
+            switch (event.type) {
+                case 'ORDER_ACCEPTED': {
+                    const { order } = event;
+                    this.records.set(order.id, {
+                        order,
+                        changes: [{ status: 'OPEN', timestamp: order.timestamp }],
+                    });
+                    this.byUser.set(order.userId, [...(this.byUser.get(order.userId) ?? []), order.id]);
+                    break;
+                }
+                case 'ORDER_RESTED': {
+                    // The remainder as it joined the book (e.g. a triggered stop-limit)
+                    const record = this.records.get(event.order.id);
+                    if (record) {
+                        this.records.set(event.order.id, { ...record, order: event.order });
+                    }
+                    break;
+                }
+                case 'FILL': {
+                    const { fill } = event;
+                    for (const orderId of [fill.takerOrderId, fill.makerOrderId]) {
+                        if (orderId !== AMM_MAKER_ID) {
+                            this.takeOff(orderId, fill.quantity, {
+                                timestamp: fill.timestamp,
+                                fillId: fill.id,
+                                quantity: fill.quantity,
+                            });
+                        }
+                    }
+                    break;
+                }
+                case 'ORDER_CANCELLED':
+                    this.takeOff(event.orderId, event.quantity, {
+                        timestamp,
+                        quantity: event.quantity,
+                        reason: event.reason,
+                    });
+                    break;
+            }
+        }
+    }
+
+    /**
+     * Take filled or cancelled quantity off an order and record the change
+     * Fills leave it PARTIAL or FILLED; cancellations leave its status alone
+     * unless nothing remains
+     */
+    private takeOff(orderId: string, quantity: number, change: Omit<OrderStatusChange, 'status'>): void {
+        const record = this.records.get(orderId);
+        if (!record) {
+            return;
+        }
+        const { order } = record;
+        const remainingQuantity = order.remainingQuantity - quantity;
+        const status = change.fillId !== undefined
+            ? (remainingQuantity === 0 ? 'FILLED' : 'PARTIAL')
+            : (remainingQuantity === 0 ? 'CANCELLED' : order.status);
+
+        // An amendment that leaves quantity on the book reduces the order in place
+        const reduced = change.reason === 'AMENDED' && remainingQuantity > 0;
+        this.records.set(orderId, {
+            order: {
+                ...order,
+                remainingQuantity,
+                status,
+                ...(reduced && { quantity: order.quantity - quantity }),
+            },
+            changes: [...record.changes, { status, ...change }],
+        });
+    }
+}
@@ -0,0 +1,327 @@
+/**
+ * Price-level indexed orderbook
+ *
+ * Each outcome has its own book. Each side keeps its price levels in a sorted
+ * array, and each level is a FIFO queue. An order-ID index finds any resting
+ * order without scanning the book. All updates are persistent: they copy the
+ * touched level, its side's level array and one index bucket with its shard,
+ * and share the rest with the previous book, so states stay immutable and
+ * cheap to keep. The index is sparse: empty shards and buckets are left out,
+ * so they are not serialized (or signed) with the state.
+ *
+ * Costs with L levels per side (at most one per tick), k orders at a level
+ * and n resting orders:
+ * - best order: O(1)
+ * - time priority of an order: O(1) (arrival order, also across levels)
+ * - add / remove / replace: O(L + k + INDEX_SHARDS + n / INDEX_SHARDS²)
+ */
+
+import type {
+    Order,
+    Outcome,
+    OrderSide,
+    Orderbook,
+    OutcomeBook,
+    BookSide,
+    BookLevel,
+    OrderLocation,
+    OrderExpiry,
+} from './types';
+
+// Number of order-ID index shards, and of buckets in each shard
+const INDEX_SHARDS = 64;
+
+const sideKey = (side: OrderSide): keyof OutcomeBook => (side === 'BUY' ? 'bids' : 'asks');
+
+// FNV-1a hash of the order ID, reduced to a bucket number
+const bucketOf = (orderId: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < orderId.length; i++) {
+        hash ^= orderId.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) % (INDEX_SHARDS * INDEX_SHARDS);
+};
+
+
+// Quantity a resting order shows (the current slice for icebergs)
+const visibleQuantity = (order: Order): number => order.visibleQuantity ?? order.remainingQuantity;
+
+const makeLevel = (price: number, orders: Order[]): BookLevel => ({
+    price,
+    orders,
+    quantity: orders.reduce((sum, o) => sum + visibleQuantity(o), 0),
+});
+
+/**
+ * Create an empty orderbook with one book per outcome
+ */
+export function createOrderbook(outcomes: Outcome[]): Orderbook {
+    return {
+        books: Object.fromEntries(outcomes.map(outcome => [outcome, { bids: [], asks: [] }])),
+        index: {},
+        nextPriority: 0,
+        expiries: [],
+    };
+}
+
+/**
+ * The side of the book an outcome's bids or asks rest on
+ */
+export function getBookSide(orderbook: Orderbook, outcome: Outcome, side: OrderSide): BookSide {
+    return orderbook.books[outcome][sideKey(side)];
+}
+
+/**
+ * Oldest order at the best price of a side
+ */
+export function bestOrder(bookSide: BookSide): Order | undefined {
+    return bookSide[0]?.orders[0];
+}
+
+/**
+ * Binary search for a price in a side: the level's position if present,
+ * otherwise where it would be inserted
+ */
+function searchLevel(bookSide: BookSide, price: number, isBid: boolean): number {
+    let lo = 0;
+    let hi = bookSide.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        const levelPrice = bookSide[mid].price;
+        if (isBid ? levelPrice > price : levelPrice < price) {
+            lo = mid + 1;
+        } else {
+            hi = mid;
+        }
+    }
+    return lo;
+}
+
+/**
+ * The level at a price, if any
+ */
+function findLevel(bookSide: BookSide, price: number, isBid: boolean): BookLevel | undefined {
+    const level = bookSide[searchLevel(bookSide, price, isBid)];
+    return level?.price === price ? level : undefined;
+}
+
+const getLocation = (orderbook: Orderbook, orderId: string): OrderLocation | undefined => {
+    const bucket = bucketOf(orderId);
+    return orderbook.index[Math.floor(bucket / INDEX_SHARDS)]?.[bucket % INDEX_SHARDS]?.find(l => l.orderId === orderId);
+};
+
+/**
+ * Time priority of a resting order (lower is earlier)
+ * Orders refilled or re-queued at the back of a level get a new, later priority
+ */
+export function getPriority(orderbook: Orderbook, orderId: string): number {
+    return getLocation(orderbook, orderId)?.priority ?? Infinity;
+}
+
+/**
+ * Look up a resting order by ID
+ */
+export function getOrder(orderbook: Orderbook, orderId: string): Order | undefined {
+    const location = getLocation(orderbook, orderId);
+    if (!location) {
+        return undefined;
+    }
+    const bookSide = getBookSide(orderbook, location.outcome, location.side);
+    return findLevel(bookSide, location.price, location.side === 'BUY')?.orders.find(o => o.id === orderId);
+}
+
+/**
+ * All resting orders, side by side in priority order
+ */
+export function listOrders(orderbook: Orderbook): Order[] {
+    const orders: Order[] = [];
+    for (const book of Object.values(orderbook.books)) {
+        for (const level of [...book.bids, ...book.asks]) {
+            orders.push(...level.orders);
+        }
+    }
+    return orders;
+}
+
+/**
+ * Replace the orders at one price, creating or dropping the level as needed
+ */
+function setLevel(
+    bookSide: BookSide,
+    price: number,
+    orders: Order[],
+    isBid: boolean
+): BookSide {
+    const position = searchLevel(bookSide, price, isBid);
+    const exists = bookSide[position]?.price === price;
+
+    if (orders.length === 0 && !exists) {
+        return bookSide;
+    }
+    const updated = bookSide.slice();
+    if (orders.length === 0) {
+        updated.splice(position, 1);
+    } else if (exists) {
+        updated[position] = makeLevel(price, orders);
+    } else {
+        updated.splice(position, 0, makeLevel(price, orders));
+    }
+    return updated;
+}
+
+/**
+ * Apply a change to the orders at an order's price level
+ */
+function updateLevel(
+    orderbook: Orderbook,
+    order: Order,
+    update: (orders: Order[]) => Order[]
+): Orderbook {
+    const key = sideKey(order.side);
+    const isBid = order.side === 'BUY';
+    const book = orderbook.books[order.outcome];
+    const current = findLevel(book[key], order.price, isBid)?.orders ?? [];
+    return {
+        ...orderbook,
+        books: {
+            ...orderbook.books,
+            [order.outcome]: { ...book, [key]: setLevel(book[key], order.price, update(current), isBid) },
+        },
+    };
+}
+
+/**
+ * Set or clear an order's index entry
+ */
+function setLocation(
+    index: Orderbook['index'],
+    orderId: string,
+    location: OrderLocation | null
+): Orderbook['index'] {
+    const bucket = bucketOf(orderId);
+    const shardNumber = Math.floor(bucket / INDEX_SHARDS);
+    const slot = bucket % INDEX_SHARDS;
+    const shard = { ...index[shardNumber] };
+    const entries = (shard[slot] ?? []).filter(l => l.orderId !== orderId);
+    if (location) {
+        entries.push(location);
+    }
+    if (entries.length > 0) {
+        shard[slot] = entries;
+    } else {
+        delete shard[slot];
+    }
+
+    const updated = { ...index };
+    if (Object.keys(shard).length > 0) {
+        updated[shardNumber] = shard;
+    } else {
+        delete updated[shardNumber];
+    }
+    return updated;
+}
+
+/**
+ * Add an order to the back of its price level
+ */
+export function addOrder(orderbook: Orderbook, order: Order): Orderbook {
+    const updated = updateLevel(orderbook, order, orders => [...orders, order]);
+    const location: OrderLocation = {
+        orderId: order.id,
+        outcome: order.outcome,
+        side: order.side,
+        price: order.price,
+        priority: orderbook.nextPriority,
+    };
+
+    let expiries = orderbook.expiries;
+    if (order.timeInForce === 'GTD' && order.expiresAt !== undefined) {
+        // Insert after any entries with the same expiry
+        const entry: OrderExpiry = { expiresAt: order.expiresAt, orderId: order.id };
+        let lo = 0;
+        let hi = expiries.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >>> 1;
+            if (expiries[mid].expiresAt <= entry.expiresAt) {
+                lo = mid + 1;
+            } else {
+                hi = mid;
+            }
+        }
+        expiries = [...expiries.slice(0, lo), entry, ...expiries.slice(lo)];
+    }
+
+    return {
+        ...updated,
+        index: setLocation(orderbook.index, order.id, location),
+        nextPriority: orderbook.nextPriority + 1,
+        expiries,
+    };
+}
+
+/**
+ * Remove a resting order by ID
+ * Returns the same book if the order is not resting
+ */
+export function removeOrder(orderbook: Orderbook, orderId: string): Orderbook {
+    const order = getOrder(orderbook, orderId);
+    if (!order) {
+        return orderbook;
+    }
+
+    // A stale expiry entry is left behind and skipped when it comes due
+    const updated = updateLevel(orderbook, order, orders => orders.filter(o => o.id !== orderId));
+    return { ...updated, index: setLocation(orderbook.index, orderId, null) };
+}
+
+/**
+ * Replace a resting order in place, keeping its queue position
+ * The replacement must keep the order's ID, outcome, side and price
+ */
+export function replaceOrder(orderbook: Orderbook, order: Order): Orderbook {
+    return updateLevel(orderbook, order, orders => orders.map(o => (o.id === order.id ? order : o)));
+}
+
+/**
+ * Move a resting order to the back of its price level (e.g. an iceberg refill)
+ */
+export function requeueOrder(orderbook: Orderbook, order: Order): Orderbook {
+    const location = getLocation(orderbook, order.id);
+    if (!location) {
+        return orderbook;
+    }
+    const updated = updateLevel(orderbook, order, orders => [...orders.filter(o => o.id !== order.id), order]);
+    return {
+        ...updated,
+        index: setLocation(orderbook.index, order.id, { ...location, priority: orderbook.nextPriority }),
+        nextPriority: orderbook.nextPriority + 1,
+    };
+}
+
+/**
+ * Remove GTD orders whose expiry has passed
+ */
+export function removeExpired(
+    orderbook: Orderbook,
+    now: number
+): { orderbook: Orderbook; expired: Order[] } {
+    const { expiries } = orderbook;
+    const expired: Order[] = [];
+    let book = orderbook;
+    let due = 0;
+
+    while (due < expiries.length && expiries[due].expiresAt <= now) {
+        const order = getOrder(book, expiries[due].orderId);
+        if (order) {
+            expired.push(order);
+            book = removeOrder(book, order.id);
+        }
+        due++;
+    }
+
+    if (due === 0) {
+        return { orderbook, expired };
+    }
+    return { orderbook: { ...book, expiries: expiries.slice(due) }, expired };
+}
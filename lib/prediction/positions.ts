@@ -0,0 +1,108 @@
+/**
+ * Position ledger
+ *
+ * Derives each user's positions from their fills: shares bought open a
+ * position at the fill price, shares sold close it at the average entry price
+ * and realize the difference. Positions only cover shares traded through the
+ * book or the AMM; selling shares that came from minted sets or deposits
+ * realizes nothing, since they have no entry price.
+ */
+
+import type { Fill, Order, OrderSide, Outcome, Position, PositionMark, PredictionMarketState } from './types';
+import { AMM_MAKER_ID, PRICE_PRECISION } from './types';
+import { complementPrice, mulDiv, notional } from './fixed-point';
+import type { OrderHistory } from './order-history';
+import { matcher } from './matcher';
+
+interface Ledger {
+    quantity: number;
+    costBasis: number;
+    realizedPnl: number;
+    fees: number;
+}
+
+/**
+ * Apply one of the user's fill legs to an outcome's ledger
+ */
+function applyFill(ledger: Ledger, fill: Fill, outcome: Outcome, side: OrderSide, fee: number): Ledger {
+    // Fill prices are quoted in the taker's outcome
+    const price = outcome === fill.outcome ? fill.price : complementPrice(fill.price);
+    if (side === 'BUY') {
+        return {
+            quantity: ledger.quantity + fill.quantity,
+            costBasis: ledger.costBasis + notional(price, fill.quantity, 'UP'),
+            realizedPnl: ledger.realizedPnl,
+            fees: ledger.fees + fee,
+        };
+    }
+    const closed = Math.min(fill.quantity, ledger.quantity);
+    const closedCost = closed > 0 ? mulDiv(ledger.costBasis, closed, ledger.quantity, 'DOWN') : 0;
+    return {
+        quantity: ledger.quantity - closed,
+        costBasis: ledger.costBasis - closedCost,
+        realizedPnl: ledger.realizedPnl + notional(price, closed, 'DOWN') - closedCost,
+        fees: ledger.fees + fee,
+    };
+}
+
+/**
+ * Price an outcome's open quantity is marked to, or null if it has none
+ */
+function markPrice(state: PredictionMarketState, outcome: Outcome, mark: PositionMark): number | null {
+    if (state.resolutionPayouts) {
+        return state.resolutionPayouts[outcome];
+    }
+    const last = state.lastPrices[outcome];
+    const mid = matcher.getOrderbookDisplay(state, outcome).midPrice;
+    // Mids of adjacent ticks fall between them; round down to a whole micro-USDC
+    const roundedMid = mid === null ? null : Math.floor(mid);
+    return mark === 'MID' ? roundedMid ?? last : last ?? roundedMid;
+}
+
+/**
+ * A user's position in every outcome they have traded, in market outcome order
+ * The user's orders come from the order history; covers only the state's fill
+ * window unless the full fill history is given
+ */
+export function getPositions(
+    state: PredictionMarketState,
+    history: OrderHistory,
+    userId: string,
+    mark: PositionMark = 'LAST_PRICE',
+    fills: Fill[] = state.fills
+): Position[] {
+    const orders = new Map<string, Order>(history.listUserRecords(userId).map(r => [r.order.id, r.order]));
+    const ledgers = new Map<Outcome, Ledger>();
+
+    for (const fill of fills) {
+        const legs: [string, 'takerFee' | 'makerFee'][] = [
+            [fill.takerOrderId, 'takerFee'],
+            [fill.makerOrderId, 'makerFee'],
+        ];
+        for (const [orderId, feeField] of legs) {
+            const order = orders.get(orderId);
+            if (orderId === AMM_MAKER_ID || !order) {
+                continue;
+            }
+            const ledger = ledgers.get(order.outcome) ?? { quantity: 0, costBasis: 0, realizedPnl: 0, fees: 0 };
+            ledgers.set(order.outcome, applyFill(ledger, fill, order.outcome, order.side, fill[feeField]));
+        }
+    }
+
+    return state.outcomes
+        .filter(outcome => ledgers.has(outcome))
+        .map(outcome => {
+            const { quantity, costBasis, realizedPnl, fees } = ledgers.get(outcome)!;
+            const price = markPrice(state, outcome, mark);
+            return {
+                outcome,
+                quantity,
+                averagePrice: quantity > 0 ? mulDiv(costBasis, PRICE_PRECISION, quantity, 'UP') : 0,
+                costBasis,
+                realizedPnl,
+                markPrice: price,
+                unrealizedPnl: price === null ? 0 : notional(price, quantity, 'DOWN') - costBasis,
+                fees,
+            };
+        });
+}
@@ -0,0 +1,55 @@
+/**
+ * Journal replay
+ *
+ * Rebuilds a market from its input journal: a fresh StateManager re-runs every
+ * command at its journaled clock reading, and the sequence after each one, and
+ * the state hash at each checkpoint entry, are checked against the journal.
+ * The first entry that diverges bounds where a replica, or a disputed balance,
+ * went wrong.
+ */
+
+import type { IdGenerator, InputJournal, ReplayResult } from './types';
+import { sequenceId } from './matcher';
+import { StateManager, hashState } from './state-manager';
+
+/**
+ * Replay a journal from the market's creation
+ * IDs must come from the generator the journaled manager used
+ */
+export function replayJournal(journal: InputJournal, generateId: IdGenerator = sequenceId): ReplayResult {
+    let now = journal.timestamp;
+    const manager = new StateManager(journal.marketId, journal.question, journal.market, journal.config, {
+        clock: () => now,
+        generateId,
+    });
+    if (hashState(manager.getState()) !== journal.stateHash) {
+        return { success: false, error: 'Initial state does not match the journal', state: manager.getState() };
+    }
+
+    for (const [entryIndex, entry] of journal.entries.entries()) {
+        const before = manager.getState();
+        const label = `Entry ${entryIndex} (${entry.command.type})`;
+        now = entry.timestamp;
+        try {
+            manager.execute(entry.command);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { success: false, error: `${label} failed: ${message}`, entryIndex, state: before };
+        }
+
+        const state = manager.getState();
+        if (state.sequence !== entry.sequence) {
+            return {
+                success: false,
+                error: `${label} produced sequence ${state.sequence}, journal has ${entry.sequence}`,
+                entryIndex,
+                state: before,
+            };
+        }
+        if (entry.stateHash !== undefined && hashState(state) !== entry.stateHash) {
+            return { success: false, error: `${label} produced a different state`, entryIndex, state: before };
+        }
+    }
+
+    return { success: true, state: manager.getState() };
+}
@@ -1,12 +1,41 @@
 /**
  * State Manager for Prediction Market
  * 
- * Manages state channel state with signing and verification
+ * Manages state channel state with signing and verification, and journals
+ * every input so the state can be rebuilt from scratch (see replay.ts)
  */
 
 import { ethers } from 'ethers';
-import type { PredictionMarketState } from './types';
-import { createInitialState, initUserBalance } from './matcher';
+import type {
+    PredictionMarketState,
+    UserBalance,
+    CancelAllFilter,
+    Outcome,
+    ScalarRange,
+    MarketStatus,
+    MarketConfig,
+    MatcherOptions,
+    Clock,
+    Position,
+    PositionMark,
+    OrderRequest,
+    OrderResult,
+    AmendOrderRequest,
+    AmendOrderResult,
+    CompleteSetResult,
+    BatchAuctionResult,
+    Fill,
+    OrderRecord,
+    JournalCommand,
+    JournalEntry,
+    InputJournal,
+} from './types';
+import { BINARY_OUTCOMES, PRICE_PRECISION } from './types';
+import { createInitialState, createScalarState, initUserBalance, PredictionMarketMatcher, sequenceId } from './matcher';
+import { notional, scalarLongPayout } from './fixed-point';
+import { ammLiability } from './lmsr';
+import { getPositions } from './positions';
+import { OrderHistory } from './order-history';
 
 // EIP-712 Domain
 const DOMAIN = {
@@ -25,6 +54,28 @@ const STATE_TYPES = {
     ],
 };
 
+/**
+ * keccak256 of a state's JSON, as signed in state updates
+ */
+export function hashState(state: PredictionMarketState): string {
+    return ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(state)));
+}
+
+/**
+ * Create a market from its outcomes, or from its range for a scalar market
+ */
+function createMarketState(
+    marketId: string,
+    question: string,
+    market: Outcome[] | ScalarRange,
+    config: Partial<MarketConfig>,
+    now: number
+): PredictionMarketState {
+    return Array.isArray(market)
+        ? createInitialState(marketId, question, config, market, now)
+        : createScalarState(marketId, question, market, config, now);
+}
+
 /**
  * State manager class
  */
@@ -33,9 +84,168 @@ export class StateManager {
     private signer: ethers.Signer | null = null;
     private userAddress: string | null = null;
     private listeners: Set<(state: PredictionMarketState) => void> = new Set();
+    private readonly clock: Clock;
+    private readonly matcher: PredictionMarketMatcher;
+    private journal: Omit<InputJournal, 'entries'>;
+    private entries: JournalEntry[] = [];
+    // Every fill, including those folded out of the signed state
+    private fills: Fill[] = [];
+    // Every accepted order with its status changes, rebuilt from events
+    private history = new OrderHistory();
+    // Clock reading of the command being run, so every read inside it agrees
+    private commandTime: number | null = null;
+
+    /**
+     * config overrides DEFAULT_MARKET_CONFIG and is journaled in full. The
+     * clock and ID generator in options are shared with the manager's matcher;
+     * IDs default to sequence-derived ones, so the journal replays
+     */
+    constructor(
+        marketId: string,
+        question: string,
+        market: Outcome[] | ScalarRange = BINARY_OUTCOMES,
+        config: Partial<MarketConfig> = {},
+        options: MatcherOptions = {}
+    ) {
+        this.clock = options.clock ?? Date.now;
+        this.matcher = new PredictionMarketMatcher({
+            generateId: options.generateId ?? sequenceId,
+            clock: () => this.now(),
+        });
+        this.state = createMarketState(marketId, question, market, config, this.now());
+        this.journal = this.journalHeader(market);
+    }
+
+    private journalHeader(market: Outcome[] | ScalarRange): Omit<InputJournal, 'entries'> {
+        const { marketId, question, config, timestamp } = this.state;
+        return { marketId, question, market, config, timestamp, stateHash: hashState(this.state) };
+    }
+
+    private now(): number {
+        return this.commandTime ?? this.clock();
+    }
+
+    /**
+     * Run a command at a single clock reading and journal it with the sequence it left
+     * Commands that throw change nothing and are not journaled; neither are
+     * sweeps and batch checks that find nothing due, as they run on a timer
+     */
+    private journaled<T>(command: JournalCommand, run: () => T): T {
+        this.commandTime = this.clock();
+        const before = this.state;
+        try {
+            const result = run();
+            if (this.state.sequence !== before.sequence) {
+                for (const event of this.state.events) {
+                    if (event.type === 'FILL') {
+                        this.fills.push(event.fill);
+                    }
+                }
+                this.history.apply(this.state.events, this.state.timestamp);
+            } else if (command.type === 'SWEEP' || command.type === 'RUN_BATCH') {
+                return result;
+            }
+            this.entries.push({ command, timestamp: this.commandTime, sequence: this.state.sequence });
+            return result;
+        } finally {
+            this.commandTime = null;
+        }
+    }
+
+    /**
+     * Record the current state's hash on the last journal entry, if it has none yet
+     * Hashing re-serializes the whole state, so it is left to signing and export
+     * rather than done per command. Returns the hash, reusing the recorded one
+     * while the state is unchanged
+     */
+    private checkpoint(): string {
+        const last = this.entries.length - 1;
+        if (last < 0) {
+            return this.journal.stateHash;
+        }
+        const entry = this.entries[last];
+        if (entry.stateHash === undefined) {
+            this.entries[last] = { ...entry, stateHash: hashState(this.state) };
+        }
+        return this.entries[last].stateHash!;
+    }
 
-    constructor(marketId: string, question: string) {
-        this.state = createInitialState(marketId, question);
+    /**
+     * Run a journal command (used by the replayer)
+     */
+    execute(command: JournalCommand): void {
+        switch (command.type) {
+            case 'DEPOSIT':
+                return this.deposit(command.userId, command.amount);
+            case 'ORDER':
+                this.placeOrder(command.request);
+                return;
+            case 'CANCEL':
+                this.cancel(command.userId, command.orderId);
+                return;
+            case 'CANCEL_ALL':
+                this.cancelAll(command.userId, command.filter);
+                return;
+            case 'AMEND':
+                this.amend(command.userId, command.orderId, command.amendment);
+                return;
+            case 'MINT_SETS':
+                this.mintCompleteSet(command.userId, command.amount);
+                return;
+            case 'REDEEM_SETS':
+                this.redeemCompleteSet(command.userId, command.amount);
+                return;
+            case 'SWEEP':
+                return this.sweepExpiredOrders();
+            case 'RUN_BATCH':
+                this.runBatchAuction();
+                return;
+            case 'START_AMM':
+                return this.startAmm(command.liquidity);
+            case 'LOCK':
+                return this.lockMarket();
+            case 'RESOLVE':
+                return this.resolveMarket(command.resolution);
+            case 'SETTLE':
+                return this.settleMarket();
+            case 'SET_STATE':
+                return this.updateState(command.state);
+        }
+    }
+
+    /**
+     * Get the input journal since the market was created, its last entry
+     * checkpointed with the current state's hash
+     */
+    getJournal(): InputJournal {
+        this.checkpoint();
+        return { ...this.journal, entries: [...this.entries] };
+    }
+
+    /**
+     * Get every fill since the market was created, oldest first, including
+     * those folded into the state's fill checkpoint
+     */
+    getFills(): Fill[] {
+        return [...this.fills];
+    }
+
+    /**
+     * Look up any accepted order by ID, open or not, with its status changes
+     * The history is built from the transitions this manager ran, so it covers
+     * the market from its creation only when the manager ran the whole journal
+     * (a fresh manager rebuilds it by executing a journal's commands); open
+     * orders are also on the state (matcher.getOrder)
+     */
+    getOrder(orderId: string): OrderRecord | undefined {
+        return this.history.get(orderId);
+    }
+
+    /**
+     * Every order a user has placed, oldest first, with its status changes
+     */
+    getOrderHistory(userId: string): OrderRecord[] {
+        return this.history.listUserRecords(userId);
     }
 
     /**
@@ -66,23 +276,200 @@ export class StateManager {
         return this.userAddress;
     }
 
+    /**
+     * Get the matcher, which reads this manager's clock and ID generator
+     */
+    getMatcher(): PredictionMarketMatcher {
+        return this.matcher;
+    }
+
     /**
      * Update state (after local matching)
+     * Journaled as is, since the manager did not compute it. Only newState's own
+     * events (its last transition) reach the fills and order history, so install
+     * states one transition at a time, or run commands through the manager
      */
     updateState(newState: PredictionMarketState): void {
-        this.state = newState;
-        this.notifyListeners();
+        this.journaled({ type: 'SET_STATE', state: newState }, () => {
+            this.state = newState;
+            this.notifyListeners();
+        });
     }
 
     /**
-     * Initialize user with USDC deposit
+     * Initialize user with USDC deposit (amount in micro-USDC)
      */
     depositUSDC(amount: number): void {
         if (!this.userAddress) {
             throw new Error('Not initialized');
         }
-        this.state = initUserBalance(this.state, this.userAddress, amount);
-        this.notifyListeners();
+        this.deposit(this.userAddress, amount);
+    }
+
+    /**
+     * Deposit USDC for any user (e.g. a demo account or the operator)
+     * Adds to the user's balance if they already have one
+     */
+    deposit(userId: string, amount: number): void {
+        if (!Number.isSafeInteger(amount) || amount <= 0) {
+            throw new Error('Deposit must be a positive integer amount of micro-USDC');
+        }
+        this.journaled({ type: 'DEPOSIT', userId, amount }, () => {
+            this.state = initUserBalance(this.state, userId, amount, this.now());
+            this.notifyListeners();
+        });
+    }
+
+    /**
+     * Match an order and apply the result
+     * Rejected orders are journaled but leave the state unchanged
+     */
+    placeOrder(request: OrderRequest): OrderResult {
+        return this.journaled({ type: 'ORDER', request }, () => {
+            const result = this.matcher.processOrder(this.state, request);
+            if (result.success) {
+                this.state = result.newState;
+                this.notifyListeners();
+            }
+            return result;
+        });
+    }
+
+    /**
+     * Cancel one of the user's open orders
+     * Returns false if the user has no such order
+     */
+    cancelOrder(orderId: string): boolean {
+        if (!this.userAddress) {
+            throw new Error('Not initialized');
+        }
+        return this.cancel(this.userAddress, orderId);
+    }
+
+    private cancel(userId: string, orderId: string): boolean {
+        return this.journaled({ type: 'CANCEL', orderId, userId }, () => {
+            const newState = this.matcher.cancelOrder(this.state, orderId, userId);
+            if (newState === this.state) {
+                return false;
+            }
+            this.state = newState;
+            this.notifyListeners();
+            return true;
+        });
+    }
+
+    /**
+     * Cancel all of the user's open orders (kill switch)
+     * Returns the cancelled order IDs
+     */
+    cancelAllOrders(filter?: CancelAllFilter): string[] {
+        if (!this.userAddress) {
+            throw new Error('Not initialized');
+        }
+        return this.cancelAll(this.userAddress, filter);
+    }
+
+    private cancelAll(userId: string, filter?: CancelAllFilter): string[] {
+        return this.journaled({ type: 'CANCEL_ALL', userId, ...(filter && { filter }) }, () => {
+            const { cancelledOrderIds, newState } =
+                this.matcher.cancelAllOrders(this.state, userId, filter);
+            if (cancelledOrderIds.length > 0) {
+                this.state = newState;
+                this.notifyListeners();
+            }
+            return cancelledOrderIds;
+        });
+    }
+
+    /**
+     * Amend one of the user's open orders (see PredictionMarketMatcher.amendOrder)
+     * Refused amendments are journaled but leave the state unchanged
+     */
+    amendOrder(orderId: string, amendment: AmendOrderRequest): AmendOrderResult {
+        if (!this.userAddress) {
+            throw new Error('Not initialized');
+        }
+        return this.amend(this.userAddress, orderId, amendment);
+    }
+
+    private amend(userId: string, orderId: string, amendment: AmendOrderRequest): AmendOrderResult {
+        return this.journaled({ type: 'AMEND', orderId, userId, amendment }, () => {
+            const result = this.matcher.amendOrder(this.state, orderId, userId, amendment, this.history);
+            if (result.success) {
+                this.state = result.newState;
+                this.notifyListeners();
+            }
+            return result;
+        });
+    }
+
+    /**
+     * Mint complete sets for a user out of their available USDC
+     */
+    mintCompleteSet(userId: string, amount: number): CompleteSetResult {
+        return this.journaled({ type: 'MINT_SETS', userId, amount }, () =>
+            this.applyCompleteSets(this.matcher.mintCompleteSet(this.state, userId, amount))
+        );
+    }
+
+    /**
+     * Redeem a user's complete sets for USDC
+     */
+    redeemCompleteSet(userId: string, amount: number): CompleteSetResult {
+        return this.journaled({ type: 'REDEEM_SETS', userId, amount }, () =>
+            this.applyCompleteSets(this.matcher.redeemCompleteSet(this.state, userId, amount))
+        );
+    }
+
+    private applyCompleteSets(result: CompleteSetResult): CompleteSetResult {
+        if (result.success) {
+            this.state = result.newState;
+            this.notifyListeners();
+        }
+        return result;
+    }
+
+    /**
+     * Cancel GTD orders whose expiry has passed
+     */
+    sweepExpiredOrders(): void {
+        this.journaled({ type: 'SWEEP' }, () => {
+            const newState = this.matcher.sweepExpiredOrders(this.state);
+            if (newState !== this.state) {
+                this.state = newState;
+                this.notifyListeners();
+            }
+        });
+    }
+
+    /**
+     * Clear the batch auction if one is due (batch auction markets only)
+     * Returns null if no batch is due
+     */
+    runBatchAuction(): BatchAuctionResult | null {
+        return this.journaled({ type: 'RUN_BATCH' }, () => {
+            const result = this.matcher.runBatchAuction(this.state);
+            if (result) {
+                this.state = result.newState;
+                this.notifyListeners();
+            }
+            return result;
+        });
+    }
+
+    /**
+     * Start the market's LMSR market maker, funded from the operator's USDC
+     * (liquidity parameter b in micro-shares)
+     */
+    startAmm(liquidity: number): void {
+        this.journaled({ type: 'START_AMM', liquidity }, () => {
+            const result = this.matcher.startAmm(this.state, liquidity);
+            if (!result.success) {
+                throw new Error(result.error);
+            }
+            this.state = result.newState;
+            this.notifyListeners();
+        });
     }
 
     /**
@@ -93,10 +480,8 @@ export class StateManager {
             throw new Error('Signer not initialized');
         }
 
-        // Create hash of full state for compact signing
-        const stateHash = ethers.keccak256(
-            ethers.toUtf8Bytes(JSON.stringify(this.state))
-        );
+        // Create hash of full state for compact signing (and checkpoint the journal)
+        const stateHash = this.checkpoint();
 
         const value = {
             marketId: this.state.marketId,
@@ -122,9 +507,7 @@ export class StateManager {
         expectedAddress: string
     ): boolean {
         try {
-            const stateHash = ethers.keccak256(
-                ethers.toUtf8Bytes(JSON.stringify(state))
-            );
+            const stateHash = hashState(state);
 
             const value = {
                 marketId: state.marketId,
@@ -170,7 +553,7 @@ export class StateManager {
     exportProof(): string {
         return JSON.stringify({
             state: this.state,
-            timestamp: Date.now(),
+            timestamp: this.clock(),
             exportedBy: this.userAddress,
         }, null, 2);
     }
@@ -178,16 +561,34 @@ export class StateManager {
     /**
      * Get user balance
      */
-    getUserBalance(): { usdc: number; yes: number; no: number } | null {
+    getUserBalance(): UserBalance | null {
         if (!this.userAddress) return null;
         return this.state.balances[this.userAddress] || null;
     }
 
+    /**
+     * Get the user's positions with entry price and PnL, marked to the last
+     * trade price or the book mid
+     */
+    getPositions(mark: PositionMark = 'LAST_PRICE'): Position[] {
+        if (!this.userAddress) return [];
+        return getPositions(this.state, this.history, this.userAddress, mark, this.fills);
+    }
+
     /**
      * Reset state (for testing)
      */
-    reset(marketId: string, question: string): void {
-        this.state = createInitialState(marketId, question);
+    reset(
+        marketId: string,
+        question: string,
+        market: Outcome[] | ScalarRange = BINARY_OUTCOMES,
+        config: Partial<MarketConfig> = {}
+    ): void {
+        this.state = createMarketState(marketId, question, market, config, this.clock());
+        this.journal = this.journalHeader(market);
+        this.entries = [];
+        this.fills = [];
+        this.history = new OrderHistory();
         this.notifyListeners();
     }
 
@@ -198,31 +599,47 @@ export class StateManager {
         if (this.state.status !== 'ACTIVE') {
             throw new Error(`Cannot lock market in ${this.state.status} status`);
         }
-        this.state = {
-            ...this.state,
-            status: 'LOCKED',
-            sequence: this.state.sequence + 1,
-            timestamp: Date.now(),
-        };
-        this.notifyListeners();
+        this.journaled({ type: 'LOCK' }, () => this.changeStatus('LOCKED'));
     }
 
     /**
-     * Resolve market with winning outcome
+     * Resolve market with the winning outcome, or the observed value for a
+     * scalar market (an integer in the range's unit)
      */
-    resolveMarket(outcome: 'YES' | 'NO'): void {
+    resolveMarket(resolution: Outcome | number): void {
+        this.journaled({ type: 'RESOLVE', resolution }, () => this.resolve(resolution));
+    }
+
+    private resolve(resolution: Outcome | number): void {
         if (this.state.status !== 'LOCKED') {
             throw new Error(`Cannot resolve market in ${this.state.status} status. Must be LOCKED first.`);
         }
-        this.state = {
-            ...this.state,
-            status: 'PENDING_RESOLUTION',
-            resolutionOutcome: outcome,
-            resolutionTimestamp: Date.now(),
-            sequence: this.state.sequence + 1,
-            timestamp: Date.now(),
-        };
-        this.notifyListeners();
+
+        const { outcomes, scalarRange, amm } = this.state;
+        let resolved: Partial<PredictionMarketState>;
+        let payouts: Record<Outcome, number>;
+        if (scalarRange) {
+            if (typeof resolution !== 'number' || !Number.isSafeInteger(resolution)) {
+                throw new Error('Scalar markets resolve to an integer value');
+            }
+            const longPayout = scalarLongPayout(resolution, scalarRange);
+            payouts = { LONG: longPayout, SHORT: PRICE_PRECISION - longPayout };
+            resolved = { resolutionValue: resolution, resolutionPayouts: payouts };
+        } else {
+            if (typeof resolution !== 'string' || !outcomes.includes(resolution)) {
+                throw new Error(`Unknown outcome: ${resolution}`);
+            }
+            payouts = Object.fromEntries(outcomes.map(o => [o, o === resolution ? PRICE_PRECISION : 0]));
+            resolved = { resolutionOutcome: resolution, resolutionPayouts: payouts };
+        }
+
+        // The AMM's subsidy loss is now known
+        if (amm) {
+            const liability = ammLiability(amm, outcomes, payouts);
+            resolved.amm = { ...amm, subsidyLoss: Math.max(0, liability - amm.collected) };
+        }
+
+        this.changeStatus('PENDING_RESOLUTION', { ...resolved, resolutionTimestamp: this.now() });
     }
 
     /**
@@ -232,23 +649,34 @@ export class StateManager {
         if (this.state.status !== 'PENDING_RESOLUTION') {
             throw new Error(`Cannot settle market in ${this.state.status} status`);
         }
-        if (!this.state.resolutionOutcome) {
-            throw new Error('Resolution outcome not set');
+        if (!this.state.resolutionPayouts) {
+            throw new Error('Resolution not set');
         }
+        this.journaled({ type: 'SETTLE' }, () => this.changeStatus('SETTLED'));
+    }
+
+    /**
+     * Move the market to a lifecycle status in one transition
+     */
+    private changeStatus(status: MarketStatus, changes: Partial<PredictionMarketState> = {}): void {
+        const sequence = this.state.sequence + 1;
         this.state = {
             ...this.state,
-            status: 'SETTLED',
-            sequence: this.state.sequence + 1,
-            timestamp: Date.now(),
+            ...changes,
+            status,
+            events: [{ type: 'MARKET_STATUS_CHANGED', sequence, from: this.state.status, to: status }],
+            sequence,
+            timestamp: this.now(),
         };
         this.notifyListeners();
     }
 
     /**
-     * Calculate settlement amount for a user
+     * Calculate settlement amount for a user (micro-USDC)
      */
     getSettlementAmount(userId: string): number {
-        if (this.state.status !== 'SETTLED' || !this.state.resolutionOutcome) {
+        const { resolutionPayouts } = this.state;
+        if (this.state.status !== 'SETTLED' || !resolutionPayouts) {
             return 0;
         }
 
@@ -257,13 +685,21 @@ export class StateManager {
             return 0;
         }
 
-        // Winning shares are worth 1 USDC each
-        const winningShares = this.state.resolutionOutcome === 'YES'
-            ? balance.yes
-            : balance.no;
+        // Each share pays its outcome's payout: 1 USDC for a winning share,
+        // a linear share of 1 USDC for scalar LONG / SHORT
+        const sharesValue = this.state.outcomes.reduce(
+            (sum, o) => sum + notional(resolutionPayouts[o], balance.shares[o] ?? 0, 'DOWN'),
+            0
+        );
+
+        // The operator also gets back what is left of the AMM's subsidy and takings
+        const { amm } = this.state;
+        const ammRefund = amm && userId === this.state.config.fees.operatorId
+            ? amm.subsidy + amm.collected - ammLiability(amm, this.state.outcomes, resolutionPayouts)
+            : 0;
 
-        // Return USDC balance + winning shares value
-        return balance.usdc + winningShares;
+        // Return USDC balance + shares value
+        return balance.usdc + sharesValue + ammRefund;
     }
 }
 
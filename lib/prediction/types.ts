@@ -1,27 +1,123 @@
 /**
  * Prediction Market Types
- * Core types for binary outcome market with state channel integration
+ * Core types for binary, categorical and scalar markets with state channel integration
  */
 
 // Price precision constants
 export const PRICE_PRECISION = 1_000_000; // Prices stored as integers (0-1000000 = 0.000000-1.000000)
 export const TICK_SIZE = 1_000; // 0.001 minimum price increment
 
+// Quantity precision constants
+export const QUANTITY_PRECISION = 1_000_000; // Quantities stored as integer micro-shares
+export const LOT_SIZE = 10_000; // 0.01 share minimum quantity increment
+
+// USDC precision (matches the token's 6 decimals)
+export const USDC_PRECISION = 1_000_000; // Balances stored as integer micro-USDC
+
+// Basis points denominator for fees and slippage
+export const BPS_DENOMINATOR = 10_000;
+
 // Market lifecycle status
 export type MarketStatus = 'ACTIVE' | 'LOCKED' | 'PENDING_RESOLUTION' | 'SETTLED';
 
-// Outcome types for binary prediction market
-export type Outcome = 'YES' | 'NO';
+// Outcome name. Binary markets trade YES and NO; categorical markets have N
+// mutually exclusive outcomes, one share of each forming a complete set worth 1 USDC
+export type Outcome = string;
+
+// Outcomes of a binary market
+export const BINARY_OUTCOMES: Outcome[] = ['YES', 'NO'];
+
+// Outcomes of a scalar market. LONG pays more the higher the resolution value
+// lands in the range, SHORT the rest; together they pay exactly 1 USDC
+export const SCALAR_OUTCOMES: Outcome[] = ['LONG', 'SHORT'];
+
+/**
+ * Bounds of a scalar market, as integers in the question's own unit
+ * (e.g. whole dollars or cents). Resolution values outside are clamped
+ */
+export interface ScalarRange {
+    lower: number;
+    upper: number;
+}
 
 // Order side
 export type OrderSide = 'BUY' | 'SELL';
 
 // Order type
-export type OrderType = 'LIMIT' | 'MARKET';
+// STOP and STOP_LIMIT wait in the trigger book until the last trade price of
+// their outcome reaches triggerPrice, then enter the matcher as MARKET / LIMIT
+export type OrderType = 'LIMIT' | 'MARKET' | 'STOP' | 'STOP_LIMIT';
+
+// Time in force
+// GTC: rest until filled or cancelled
+// IOC: fill what is possible immediately, cancel the remainder
+// FOK: fill in full immediately or reject with no state change
+// GTD: rest until filled, cancelled or expiresAt
+export type TimeInForce = 'GTC' | 'IOC' | 'FOK' | 'GTD';
+
+// How a post-only order that would cross the book is handled
+// REJECT: reject the order with no state change
+// REPRICE: move the order one tick behind the best opposing price
+export type PostOnlyMode = 'REJECT' | 'REPRICE';
+
+// What the post-only check did to an incoming order
+export type PostOnlyAction = 'NONE' | 'REJECTED' | 'REPRICED';
+
+// Self-trade prevention: what happens when a taker would match its own resting order
+// NONE: allow the self-trade
+// CANCEL_NEWEST: cancel the taker's remainder
+// CANCEL_OLDEST: cancel the resting order and keep matching
+// CANCEL_BOTH: cancel both the resting order and the taker's remainder
+// DECREMENT_AND_CANCEL: reduce both by the overlap, cancel whichever reaches zero
+export type SelfTradePreventionMode =
+    | 'NONE'
+    | 'CANCEL_NEWEST'
+    | 'CANCEL_OLDEST'
+    | 'CANCEL_BOTH'
+    | 'DECREMENT_AND_CANCEL';
+
+// Why a market order stopped walking the book
+// FILLED: requested quantity reached
+// BUDGET: USDC budget exhausted
+// PRICE_LIMIT: next level is beyond the worst acceptable price
+// LIQUIDITY: no more matchable orders
+// SELF_TRADE: self-trade prevention cancelled the remainder
+export type MarketStopReason = 'FILLED' | 'BUDGET' | 'PRICE_LIMIT' | 'LIQUIDITY' | 'SELF_TRADE';
+
+// What happened to the unfilled remainder of an incoming order
+// PENDING_TRIGGER: stop order waiting in the trigger book
+// PENDING_BATCH: queued for the next batch auction clearing
+export type RemainderOutcome = 'NONE' | 'RESTED' | 'CANCELLED' | 'KILLED' | 'PENDING_TRIGGER' | 'PENDING_BATCH';
+
+// How a market matches orders
+// CONTINUOUS: each order matches on arrival by price-time priority
+// BATCH_AUCTION: orders are collected for batchIntervalMs, then the batch
+//   clears at one uniform price that maximizes matched volume
+export type MatchingMode = 'CONTINUOUS' | 'BATCH_AUCTION';
 
 // Order status
 export type OrderStatus = 'OPEN' | 'PARTIAL' | 'FILLED' | 'CANCELLED';
 
+// Why quantity came off an order without trading
+// USER: cancelled by its owner
+// MASS_CANCEL: cancelled by a cancel-all
+// EXPIRED: GTD expiry passed
+// SELF_TRADE: self-trade prevention
+// UNFILLED: IOC or market remainder that did not fill on arrival (or in its batch)
+// AMENDED: size reduced in place, or replaced by a new order
+// REJECTED: triggered stop order that failed validation or could not fill
+export type CancelReason = 'USER' | 'MASS_CANCEL' | 'EXPIRED' | 'SELF_TRADE' | 'UNFILLED' | 'AMENDED' | 'REJECTED';
+
+// How a fill settles between maker and taker
+// TRANSFER: tokens change hands (BUY vs SELL on the same outcome)
+// MINT: buys of both outcomes of a two-outcome market create a complete set backed by 1 USDC
+// BURN: sells of both outcomes of a two-outcome market destroy a complete set, releasing 1 USDC
+// AMM: the taker trades with the backstop market maker at its cost-function price
+export type FillType = 'TRANSFER' | 'MINT' | 'BURN' | 'AMM';
+
+// Maker ID recorded on fills against the AMM
+export const AMM_MAKER_ID = 'amm';
+
 /**
  * Order in the prediction market
  */
@@ -31,11 +127,26 @@ export interface Order {
     outcome: Outcome;
     side: OrderSide;
     type: OrderType;
-    /** Price in USDC (0-1 range for binary market) */
+    timeInForce: TimeInForce;
+    /** Expiry timestamp (GTD only) */
+    expiresAt?: number;
+    /** Last trade price that releases a STOP / STOP_LIMIT order (micro-USDC) */
+    triggerPrice?: number;
+    /** Iceberg slice size; the rest of remainingQuantity is hidden */
+    displayQuantity?: number;
+    /** Unfilled part of the current iceberg slice (iceberg orders only) */
+    visibleQuantity?: number;
+    /** Placed post-only (kept so an amendment's replacement is post-only too) */
+    postOnly?: boolean;
+    /** What the post-only order does if it would cross */
+    postOnlyMode?: PostOnlyMode;
+    /** Self-trade prevention mode overriding the market's */
+    selfTradePrevention?: SelfTradePreventionMode;
+    /** Price in micro-USDC (0-PRICE_PRECISION range) */
     price: number;
-    /** Number of outcome tokens */
+    /** Number of outcome tokens in micro-shares */
     quantity: number;
-    /** Remaining quantity after partial fills */
+    /** Remaining quantity after partial fills (micro-shares) */
     remainingQuantity: number;
     /** Order creation timestamp */
     timestamp: number;
@@ -47,46 +158,325 @@ export interface Order {
  */
 export interface Fill {
     id: string;
-    /** Maker order ID */
+    /** Maker order ID (AMM_MAKER_ID for fills against the AMM) */
     makerOrderId: string;
     /** Taker order ID */
     takerOrderId: string;
-    /** Fill price (maker's price) */
+    /** Fill price for the taker's outcome (maker's price, its complement for MINT/BURN, or the average AMM price) */
     price: number;
-    /** Fill quantity */
+    /** Fill quantity (micro-shares) */
     quantity: number;
     /** Timestamp of fill */
     timestamp: number;
-    /** Which outcome was traded */
+    /** Which outcome was traded (taker's outcome) */
     outcome: Outcome;
+    /** How the fill settles */
+    fillType: FillType;
+    /** Fee charged to the taker (micro-USDC) */
+    takerFee: number;
+    /** Fee charged to the maker (micro-USDC); negative for a rebate */
+    makerFee: number;
+    /** Batch auction the fill cleared in (batch auction markets only) */
+    batchId?: string;
+}
+
+/**
+ * Commitment to and totals of the fills folded out of the signed state
+ * hash chains keccak256(previous hash ‖ JSON of each folded chunk of fills)
+ */
+export interface FillCheckpoint {
+    /** Fills folded so far (a multiple of fillWindow) */
+    count: number;
+    /** Head of the hash chain (zero hash before the first fold) */
+    hash: string;
+    /** Shares traded in the folded fills (micro-shares) */
+    volume: number;
+    /** USDC traded in the folded fills at their fill prices (micro-USDC) */
+    notional: number;
 }
 
 /**
  * User balance in the prediction market
+ * Totals include the locked amounts; available = total - locked
  */
 export interface UserBalance {
-    /** USDC balance */
+    /** USDC balance (micro-USDC) */
     usdc: number;
-    /** YES outcome tokens held */
-    yes: number;
-    /** NO outcome tokens held */
-    no: number;
+    /** Outcome tokens held, by outcome (micro-shares) */
+    shares: Record<Outcome, number>;
+    /** USDC reserved by resting buy orders (micro-USDC) */
+    lockedUsdc: number;
+    /** Outcome tokens reserved by resting sell orders, by outcome (micro-shares) */
+    lockedShares: Record<Outcome, number>;
+    /** Open orders, resting or untriggered */
+    openOrders: number;
+    /** Remaining quantity of open buy orders, by outcome (micro-shares) */
+    openBuys: Record<Outcome, number>;
+}
+
+/**
+ * Per-market configuration
+ */
+export interface MarketConfig {
+    /** Default self-trade prevention mode (orders may override) */
+    selfTradePrevention: SelfTradePreventionMode;
+    /** Trading fees */
+    fees: FeeSchedule;
+    /** Continuous matching or frequent batch auctions */
+    matchingMode: MatchingMode;
+    /** How long a batch collects orders before it clears (ms, batch auctions only) */
+    batchIntervalMs: number;
+    /** Fills kept in the signed state; older ones are folded into fillCheckpoint this many at a time */
+    fillWindow: number;
+    /** Pre-trade risk limits for every user */
+    riskLimits: RiskLimits;
+    /** Per-user overrides of riskLimits (e.g. looser limits for market makers) */
+    userRiskLimits: Record<string, Partial<RiskLimits>>;
+}
+
+/**
+ * Pre-trade risk limits; null means no limit
+ */
+export interface RiskLimits {
+    /** Largest order quantity (micro-shares) */
+    maxOrderQuantity: number | null;
+    /** Largest position in one outcome a buy may lead to: shares held plus open buys (micro-shares) */
+    maxPosition: number | null;
+    /** Most open orders (resting and untriggered stops) per user */
+    maxOpenOrders: number | null;
+    /** Furthest a limit price may be from the outcome's last trade price (micro-USDC) */
+    priceBand: number | null;
+}
+
+// Which pre-trade risk limit rejected an order
+// MAX_ORDER_QUANTITY: the order is larger than the user's maximum order quantity
+// MAX_POSITION: the buy could take the user's position in the outcome over the maximum
+// MAX_OPEN_ORDERS: the user already has the maximum number of open orders
+// PRICE_BAND: the limit price is outside the band around the last trade price
+export type RiskLimitCode =
+    | 'MAX_ORDER_QUANTITY'
+    | 'MAX_POSITION'
+    | 'MAX_OPEN_ORDERS'
+    | 'PRICE_BAND';
+
+/**
+ * Source of the current time (ms since epoch)
+ */
+export type Clock = () => number;
+
+/**
+ * Source of order, fill and batch IDs, given the sequence of the state being
+ * produced and how many IDs that transition has already issued
+ */
+export type IdGenerator = (sequence: number, index: number) => string;
+
+/**
+ * Where the matcher reads the time and takes IDs from
+ * Replicas given the same clock readings and a deterministic ID generator
+ * produce byte-identical states from the same inputs
+ */
+export interface MatcherOptions {
+    /** Defaults to Date.now */
+    clock?: Clock;
+    /** Defaults to time-based random IDs */
+    generateId?: IdGenerator;
+}
+
+/**
+ * Per-market fee schedule
+ * Fees are charged in USDC on each fill's notional, rounded down, and credited
+ * to the operator's entry in balances. Rebates are paid out of the same fill's
+ * taker fee and never exceed it. In batch auctions the later order of each
+ * matched pair pays the taker fee
+ */
+export interface FeeSchedule {
+    /** Maker fee in bps; negative values pay a rebate */
+    makerFeeBps: number;
+    /** Taker fee in bps */
+    takerFeeBps: number;
+    /** Minimum total taker fee per order (micro-USDC, continuous matching only) */
+    minFee: number;
+    /** Balance entry that receives fees and funds rebates */
+    operatorId: string;
+}
+
+/**
+ * Quantity removed from an order by self-trade prevention
+ */
+export interface SelfTradeCancellation {
+    orderId: string;
+    /** Cancelled quantity (micro-shares) */
+    quantity: number;
+}
+
+/**
+ * Resting orders at one price, in time priority (FIFO)
+ */
+export interface BookLevel {
+    price: number;
+    orders: Order[];
+    /** Total visible quantity at this price (micro-shares) */
+    quantity: number;
+}
+
+/**
+ * One side of one outcome's book: price levels, best first
+ * (bids descending, asks ascending)
+ */
+export type BookSide = BookLevel[];
+
+/**
+ * Where a resting order sits in the book
+ */
+export interface OrderLocation {
+    orderId: string;
+    outcome: Outcome;
+    side: OrderSide;
+    price: number;
+    /** Arrival order in the book, used for time priority across levels */
+    priority: number;
+}
+
+/**
+ * Pending GTD expiry (may refer to an order that has since left the book)
+ */
+export interface OrderExpiry {
+    expiresAt: number;
+    orderId: string;
+}
+
+/**
+ * Bids and asks of one outcome
+ */
+export interface OutcomeBook {
+    bids: BookSide;
+    asks: BookSide;
 }
 
 /**
  * Orderbook structure
+ * Updated persistently: a change copies only the touched level, side and
+ * index bucket (with its shard) and shares everything else with the previous state
  */
 export interface Orderbook {
-    /** YES outcome orders (bids on YES side) */
-    yesBids: Order[];
-    /** YES outcome asks (sells on YES side) */
-    yesAsks: Order[];
-    /** NO outcome bids */
-    noBids: Order[];
-    /** NO outcome asks */
-    noAsks: Order[];
+    /** One book per outcome */
+    books: Record<Outcome, OutcomeBook>;
+    /**
+     * Resting order locations, split by order ID hash into shards of buckets
+     * (shard → bucket → locations); empty shards and buckets are left out
+     */
+    index: Record<number, Record<number, OrderLocation[]>>;
+    /** Priority assigned to the next order joining the back of a level */
+    nextPriority: number;
+    /** GTD expiries, earliest first */
+    expiries: OrderExpiry[];
+}
+
+/**
+ * One status change of an order
+ */
+export interface OrderStatusChange {
+    /** Status after the change */
+    status: OrderStatus;
+    timestamp: number;
+    /** Fill behind the change (fills only) */
+    fillId?: string;
+    /** Quantity filled or cancelled by the change (micro-shares) */
+    quantity?: number;
+    /** Why quantity was cancelled (cancellations only) */
+    reason?: CancelReason;
+}
+
+/**
+ * An order as of its last change, and every status change since it was accepted
+ */
+export interface OrderRecord {
+    order: Order;
+    changes: OrderStatusChange[];
+}
+
+// Matching event types
+// ORDER_ACCEPTED: an order passed validation (stop orders when placed, not again when triggered)
+// ORDER_REJECTED: an order failed validation, its post-only check or fill-or-kill (no state change)
+// ORDER_RESTED: an order's remainder joined the book (or the batch queue)
+// FILL: a trade
+// ORDER_CANCELLED: quantity came off an order without trading (the rest of it unless the order rests on)
+// MARKET_STATUS_CHANGED: the market moved through its lifecycle
+// BALANCE_CHANGED: a user's balance after the transition, one per changed balance, last
+export type MatchingEventType =
+    | 'ORDER_ACCEPTED'
+    | 'ORDER_REJECTED'
+    | 'ORDER_RESTED'
+    | 'FILL'
+    | 'ORDER_CANCELLED'
+    | 'MARKET_STATUS_CHANGED'
+    | 'BALANCE_CHANGED';
+
+/**
+ * Fields shared by all matching events
+ */
+interface MatchingEventBase {
+    type: MatchingEventType;
+    /** Sequence of the state the transition produced (of the unchanged state for rejections) */
+    sequence: number;
+}
+
+export interface OrderAcceptedEvent extends MatchingEventBase {
+    type: 'ORDER_ACCEPTED';
+    /** The order as accepted (budget-only buys for the quantity the budget bought) */
+    order: Order;
+}
+
+export interface OrderRejectedEvent extends MatchingEventBase {
+    type: 'ORDER_REJECTED';
+    request: OrderRequest;
+    error: string;
+    riskCode?: RiskLimitCode;
+}
+
+export interface OrderRestedEvent extends MatchingEventBase {
+    type: 'ORDER_RESTED';
+    order: Order;
+}
+
+export interface FillEvent extends MatchingEventBase {
+    type: 'FILL';
+    fill: Fill;
+}
+
+export interface OrderCancelledEvent extends MatchingEventBase {
+    type: 'ORDER_CANCELLED';
+    orderId: string;
+    userId: string;
+    /** Quantity cancelled (micro-shares) */
+    quantity: number;
+    reason: CancelReason;
+}
+
+export interface MarketStatusChangedEvent extends MatchingEventBase {
+    type: 'MARKET_STATUS_CHANGED';
+    from: MarketStatus;
+    to: MarketStatus;
 }
 
+export interface BalanceChangedEvent extends MatchingEventBase {
+    type: 'BALANCE_CHANGED';
+    userId: string;
+    balance: UserBalance;
+}
+
+/**
+ * Event emitted by a state transition
+ */
+export type MatchingEvent =
+    | OrderAcceptedEvent
+    | OrderRejectedEvent
+    | OrderRestedEvent
+    | FillEvent
+    | OrderCancelledEvent
+    | MarketStatusChangedEvent
+    | BalanceChangedEvent;
+
 /**
  * Complete prediction market state
  * This is what gets serialized and signed for state updates
@@ -96,24 +486,42 @@ export interface PredictionMarketState {
     marketId: string;
     /** Market question */
     question: string;
+    /** Mutually exclusive outcomes; exactly one wins at resolution */
+    outcomes: Outcome[];
     /** Market lifecycle status */
     status: MarketStatus;
+    /** Market configuration */
+    config: MarketConfig;
     /** Orderbook snapshot */
     orderbook: Orderbook;
+    /** Untriggered STOP / STOP_LIMIT orders */
+    triggerOrders: Order[];
+    /** Batch collecting orders (batch auction markets only) */
+    batch: AuctionBatch | null;
+    /** Backstop market maker (null until the operator starts one) */
+    amm: AmmState | null;
     /** User balances */
     balances: Record<string, UserBalance>;
-    /** Recent fills (for audit trail) */
+    /** Recent fills, oldest first (fewer than twice fillWindow) */
     fills: Fill[];
+    /** Fills folded out of the window */
+    fillCheckpoint: FillCheckpoint;
+    /** Events of the transition that produced this state, in order */
+    events: MatchingEvent[];
     /** Monotonic state version */
     sequence: number;
     /** State timestamp */
     timestamp: number;
-    /** Last trade price for YES outcome */
-    lastYesPrice: number | null;
-    /** Last trade price for NO outcome */
-    lastNoPrice: number | null;
-    /** Resolution outcome (set after market is resolved) */
+    /** Last trade price of each outcome (null until it trades) */
+    lastPrices: Record<Outcome, number | null>;
+    /** Payout range (scalar markets only) */
+    scalarRange: ScalarRange | null;
+    /** Resolution outcome (set after a binary or categorical market is resolved) */
     resolutionOutcome?: Outcome;
+    /** Resolution value (set after a scalar market is resolved) */
+    resolutionValue?: number;
+    /** Payout per share of each outcome in micro-USDC (set after resolution) */
+    resolutionPayouts?: Record<Outcome, number>;
     /** Resolution timestamp */
     resolutionTimestamp?: number;
 }
@@ -126,10 +534,48 @@ export interface OrderRequest {
     outcome: Outcome;
     side: OrderSide;
     type: OrderType;
-    /** Price in USDC (0-1 range), required for limit orders */
+    /** Price in micro-USDC (on TICK_SIZE), required for limit and stop-limit orders */
     price?: number;
-    /** Number of outcome tokens */
-    quantity: number;
+    /**
+     * Required for stop orders. Buys trigger when the last price of the outcome
+     * rises to or above it, sells when it falls to or below it
+     */
+    triggerPrice?: number;
+    /** Number of outcome tokens in micro-shares (on LOT_SIZE), optional for budget market buys */
+    quantity?: number;
+    /**
+     * Limit orders: show only this much (micro-shares, on LOT_SIZE) at a time.
+     * Each refill from the hidden reserve joins the back of the price level's queue
+     */
+    displayQuantity?: number;
+    /** Market buys: spend at most this much USDC (micro-USDC) */
+    budget?: number;
+    /** Market orders: worst acceptable price (micro-USDC, on TICK_SIZE) */
+    worstPrice?: number;
+    /** Market orders: maximum slippage from the best price on arrival, in basis points */
+    maxSlippageBps?: number;
+    /** Defaults to GTC for limit orders and IOC for market orders */
+    timeInForce?: TimeInForce;
+    /** Expiry timestamp, required for GTD orders */
+    expiresAt?: number;
+    /** Never take liquidity: the order must rest on arrival (limit GTC/GTD only) */
+    postOnly?: boolean;
+    /** What to do if a post-only order would cross (defaults to REJECT) */
+    postOnlyMode?: PostOnlyMode;
+    /** Overrides the market's self-trade prevention mode */
+    selfTradePrevention?: SelfTradePreventionMode;
+}
+
+/**
+ * Stop order released from the trigger book
+ */
+export interface TriggeredOrder {
+    /** The order as executed (same ID as the stop order) */
+    order: Order;
+    /** Fills generated once released */
+    fills: Fill[];
+    /** Set if the released order was rejected (e.g. insufficient balance) */
+    error?: string;
 }
 
 /**
@@ -140,14 +586,251 @@ export interface OrderResult {
     success: boolean;
     /** Error message if failed */
     error?: string;
+    /** Machine-readable reason if a risk limit rejected the order */
+    riskCode?: RiskLimitCode;
     /** The order (with ID assigned) */
     order?: Order;
     /** Fills generated by this order */
     fills: Fill[];
+    /** Volume-weighted average fill price (orders with fills only) */
+    averageFillPrice?: number;
+    /** Why a market order stopped matching (market orders only) */
+    marketStopReason?: MarketStopReason;
+    /** What the post-only check did (post-only orders only) */
+    postOnlyAction?: PostOnlyAction;
+    /** Requested price before a post-only re-price */
+    originalPrice?: number;
+    /** What happened to the unfilled remainder */
+    remainderOutcome?: RemainderOutcome;
+    /** Remainder quantity cancelled by IOC or killed by FOK (micro-shares) */
+    cancelledQuantity?: number;
+    /** Quantities cancelled by self-trade prevention (taker and/or makers) */
+    selfTradeCancellations?: SelfTradeCancellation[];
+    /** GTD orders swept from the book because they expired */
+    expiredOrderIds?: string[];
+    /** Stop orders released into the matcher by this order's fills */
+    triggeredOrders?: TriggeredOrder[];
+    /** Batch the order was queued for (batch auction markets only) */
+    batchId?: string;
+    /** Events of the transition; a single ORDER_REJECTED if the order was rejected */
+    events?: MatchingEvent[];
     /** Updated state after processing */
     newState: PredictionMarketState;
 }
 
+/**
+ * Restricts a mass cancel to one outcome and/or side
+ */
+export interface CancelAllFilter {
+    outcome?: Outcome;
+    side?: OrderSide;
+}
+
+/**
+ * Batch of orders waiting for the next auction clearing
+ */
+export interface AuctionBatch {
+    /** Tagged on the fills of this batch */
+    id: string;
+    /** When the first order of the batch arrived */
+    openedAt: number;
+}
+
+/**
+ * Result of clearing a batch auction
+ */
+export interface BatchAuctionResult {
+    batchId: string;
+    /** Uniform clearing price of each outcome that traded */
+    clearingPrices: Record<Outcome, number>;
+    /** Fills of the batch, all at the clearing price */
+    fills: Fill[];
+    /** IOC orders whose unfilled remainder was cancelled after the clearing */
+    cancelledOrderIds: string[];
+    /** GTD orders swept before the clearing because they expired */
+    expiredOrderIds: string[];
+    /** Quantities cancelled by the market's self-trade prevention mode */
+    selfTradeCancellations?: SelfTradeCancellation[];
+    /** Updated state after the clearing */
+    newState: PredictionMarketState;
+}
+
+/**
+ * LMSR market maker backing a continuous market (see lmsr.ts)
+ * Takers trade with it whenever its price beats the best book level
+ */
+export interface AmmState {
+    /** Liquidity parameter b (micro-shares); larger is deeper and needs more subsidy */
+    liquidity: number;
+    /** Inventory: net shares of each outcome sold to traders (micro-shares, negative once net bought) */
+    inventory: Record<Outcome, number>;
+    /** Operator funding, the worst-case loss b * ln(N) (micro-USDC) */
+    subsidy: number;
+    /** Net USDC received from traders (micro-USDC) */
+    collected: number;
+    /** Subsidy lost to traders (micro-USDC): the worst case while trading, the actual loss once resolved */
+    subsidyLoss: number;
+}
+
+/**
+ * Result of starting an AMM
+ */
+export interface AmmStartResult {
+    success: boolean;
+    error?: string;
+    /** Updated state (unchanged on failure) */
+    newState: PredictionMarketState;
+}
+
+/**
+ * Result of minting or redeeming complete sets
+ */
+export interface CompleteSetResult {
+    success: boolean;
+    error?: string;
+    /** Updated state (unchanged on failure) */
+    newState: PredictionMarketState;
+}
+
+/**
+ * An input command the StateManager records in its journal
+ * SET_STATE is a state installed from outside the journal (updateState); it
+ * is replayed as is
+ */
+export type JournalCommand =
+    | { type: 'DEPOSIT'; userId: string; amount: number }
+    | { type: 'ORDER'; request: OrderRequest }
+    | { type: 'CANCEL'; orderId: string; userId: string }
+    | { type: 'CANCEL_ALL'; userId: string; filter?: CancelAllFilter }
+    | { type: 'AMEND'; orderId: string; userId: string; amendment: AmendOrderRequest }
+    | { type: 'MINT_SETS'; userId: string; amount: number }
+    | { type: 'REDEEM_SETS'; userId: string; amount: number }
+    | { type: 'SWEEP' }
+    | { type: 'RUN_BATCH' }
+    | { type: 'START_AMM'; liquidity: number }
+    | { type: 'LOCK' }
+    | { type: 'RESOLVE'; resolution: Outcome | number }
+    | { type: 'SETTLE' }
+    | { type: 'SET_STATE'; state: PredictionMarketState };
+
+/**
+ * A journaled command with the clock reading it ran at and the state it left
+ * Rejected orders are journaled too and leave the state unchanged; sweeps and
+ * batch checks are only journaled when they change the state
+ */
+export interface JournalEntry {
+    command: JournalCommand;
+    timestamp: number;
+    /** Sequence of the state after the command */
+    sequence: number;
+    /**
+     * keccak256 of the state after the command, on checkpoint entries only:
+     * the last entry before each signature and the last of an exported journal
+     */
+    stateHash?: string;
+}
+
+/**
+ * Append-only record of every input since a market was created
+ */
+export interface InputJournal {
+    marketId: string;
+    question: string;
+    /** Outcomes, or the range of a scalar market */
+    market: Outcome[] | ScalarRange;
+    /** Configuration the market was created with */
+    config: MarketConfig;
+    /** When the market was created */
+    timestamp: number;
+    /** keccak256 of the initial state */
+    stateHash: string;
+    entries: JournalEntry[];
+}
+
+/**
+ * Result of replaying a journal
+ */
+export interface ReplayResult {
+    success: boolean;
+    error?: string;
+    /** Index of the first entry that diverged (or failed to run) */
+    entryIndex?: number;
+    /** State after the last entry that replayed correctly */
+    state: PredictionMarketState;
+}
+
+/**
+ * Result of a mass cancel
+ */
+export interface CancelAllResult {
+    /** Resting and untriggered stop orders that were cancelled */
+    cancelledOrderIds: string[];
+    /** Updated state (unchanged if nothing was cancelled) */
+    newState: PredictionMarketState;
+}
+
+/**
+ * Amendment to a resting order
+ */
+export interface AmendOrderRequest {
+    /** New limit price (micro-USDC, on TICK_SIZE) */
+    price?: number;
+    /** New open (remaining) quantity (micro-shares, on LOT_SIZE) */
+    quantity?: number;
+}
+
+// Why an amendment was refused
+// ORDER_PENDING_TRIGGER: an untriggered stop order (cancel and re-place it instead)
+// ORDER_FILLED / ORDER_CANCELLED: the order is closed (known from the order history)
+export type AmendErrorCode =
+    | 'ORDER_NOT_FOUND'
+    | 'NOT_ORDER_OWNER'
+    | 'ORDER_PENDING_TRIGGER'
+    | 'ORDER_FILLED'
+    | 'ORDER_CANCELLED'
+    | 'INVALID_AMENDMENT'
+    | 'REJECTED';
+
+/**
+ * Result of amending an order
+ */
+export interface AmendOrderResult extends OrderResult {
+    /** Machine-readable reason if the amendment failed */
+    errorCode?: AmendErrorCode;
+    /** True if the order kept its time priority (quantity reduction only) */
+    priorityKept?: boolean;
+    /** ID of the order that was replaced (cancel/replace only) */
+    replacedOrderId?: string;
+}
+
+// What open positions are marked to for unrealized PnL
+// LAST_PRICE: the outcome's last trade price
+// MID: the midpoint of the outcome's best bid and ask
+// Either falls back to the other when it has no price; resolved markets mark to the payout
+export type PositionMark = 'LAST_PRICE' | 'MID';
+
+/**
+ * A user's position in one outcome, derived from their fills
+ * Shares from outside fills (minted sets, deposits) have no entry price and are left out
+ */
+export interface Position {
+    outcome: Outcome;
+    /** Shares bought through fills and not sold since (micro-shares) */
+    quantity: number;
+    /** Volume-weighted entry price of the open quantity (micro-USDC, 0 when flat) */
+    averagePrice: number;
+    /** What the open quantity cost (micro-USDC) */
+    costBasis: number;
+    /** Sale proceeds less the entry cost of the shares sold (micro-USDC, before fees) */
+    realizedPnl: number;
+    /** Price the open quantity is marked to (micro-USDC), null if there is none */
+    markPrice: number | null;
+    /** Open quantity valued at the mark less its cost basis (micro-USDC) */
+    unrealizedPnl: number;
+    /** Fees paid on the outcome's fills, net of rebates (micro-USDC) */
+    fees: number;
+}
+
 /**
  * Aggregated price level for orderbook display
  */
@@ -158,19 +841,24 @@ export interface PriceLevel {
 }
 
 /**
- * Orderbook display data
+ * Orderbook display data for one outcome
+ * In two-outcome markets the other outcome's orders are included at their
+ * implied price (1 - price): its asks act as bids, its bids as asks
  */
 export interface OrderbookDisplay {
-    /** YES bids aggregated by price */
-    yesBids: PriceLevel[];
-    /** YES asks aggregated by price */
-    yesAsks: PriceLevel[];
-    /** Best YES bid price */
-    bestYesBid: number | null;
-    /** Best YES ask price */
-    bestYesAsk: number | null;
+    outcome: Outcome;
+    /** Bids aggregated by price */
+    bids: PriceLevel[];
+    /** Asks aggregated by price */
+    asks: PriceLevel[];
+    /** Best bid price */
+    bestBid: number | null;
+    /** Best ask price */
+    bestAsk: number | null;
     /** Spread (ask - bid) */
     spread: number | null;
     /** Mid price */
     midPrice: number | null;
+    /** AMM marginal price (null without an AMM) */
+    ammPrice: number | null;
 }
@@ -42,6 +42,7 @@ export class PredictionMarketNitroliteClient {
     // Event handlers
     private onConnectCallback?: () => void;
     private onDisconnectCallback?: () => void;
+    private cancelOnDisconnectHandler: (() => void) | null = null;
     private onStateConfirmedCallback?: (state: PredictionMarketState, signature: string) => void;
     private onErrorCallback?: (error: string) => void;
 
@@ -79,6 +80,7 @@ export class PredictionMarketNitroliteClient {
                     console.log('Nitrolite: Disconnected from ClearNode');
                     this.isConnected = false;
                     this.isAuthenticated = false;
+                    this.cancelOnDisconnectHandler?.();
                     this.onDisconnectCallback?.();
                 };
 
@@ -211,8 +213,7 @@ export class PredictionMarketNitroliteClient {
             // Compact representation of orderbook and balances
             orderbookHash: this.hashOrderbook(state),
             balancesHash: this.hashBalances(state),
-            lastYesPrice: state.lastYesPrice,
-            lastNoPrice: state.lastNoPrice,
+            lastPrices: state.lastPrices,
         };
 
         const updateMessage = {
@@ -297,6 +298,14 @@ export class PredictionMarketNitroliteClient {
         this.onDisconnectCallback = callback;
     }
 
+    /**
+     * Cancel-on-disconnect: pull the user's resting orders when the connection drops
+     * Runs before the onDisconnect callback; pass null to turn it off
+     */
+    setCancelOnDisconnect(handler: (() => void) | null): void {
+        this.cancelOnDisconnectHandler = handler;
+    }
+
     onStateConfirmed(callback: (state: PredictionMarketState, signature: string) => void): void {
         this.onStateConfirmedCallback = callback;
     }
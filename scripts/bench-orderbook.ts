@@ -0,0 +1,167 @@
+/**
+ * Orderbook throughput benchmark
+ *
+ * Seeds a book with N resting limit orders (YES and NO bids that never cross),
+ * then times a mixed flow against it:
+ * - 60% passive limit orders that rest
+ * - 20% crossing limit orders that take from the best levels (MINT fills)
+ * - 20% cancels of random resting orders
+ *
+ * Each size runs twice: against the bare matcher, and through the
+ * StateManager the app uses, which also journals every command and keeps
+ * fills and order history.
+ *
+ * Usage: npm run bench [-- 10000 100000]
+ */
+
+import { createInitialState, initUserBalance, matcher } from '../lib/prediction/matcher';
+import { listOrders } from '../lib/prediction/orderbook';
+import { StateManager } from '../lib/prediction/state-manager';
+import { TICK_SIZE, LOT_SIZE } from '../lib/prediction/types';
+import type { PredictionMarketState, Outcome, OrderRequest, OrderResult } from '../lib/prediction/types';
+
+const BOOK_SIZES = [10_000, 100_000];
+const FLOW_ORDERS = 20_000;
+const USERS = 50;
+const DEPOSIT = 1_000_000_000_000; // 1M USDC per user
+
+// Deterministic PRNG (mulberry32) so runs are comparable
+function createRandom(seed: number): () => number {
+    let a = seed;
+    return () => {
+        a = (a + 0x6d2b79f5) | 0;
+        let t = Math.imul(a ^ (a >>> 15), 1 | a);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Reseeded for every run, so both venues see the same flow
+let random = createRandom(42);
+const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+const randomInt = (min: number, max: number): number => min + Math.floor(random() * (max - min + 1));
+
+const userIds = Array.from({ length: USERS }, (_, i) => `user-${i}`);
+const outcomes: Outcome[] = ['YES', 'NO'];
+
+// Bid between 0.01 and 0.49: a YES bid and a NO bid never add up to 1
+const passiveOrder = (): OrderRequest => ({
+    userId: pick(userIds),
+    outcome: pick(outcomes),
+    side: 'BUY',
+    type: 'LIMIT',
+    price: randomInt(10, 490) * TICK_SIZE,
+    quantity: randomInt(1, 100) * LOT_SIZE * 10,
+});
+
+// Bid between 0.60 and 0.99: takes from the best complementary bids
+const crossingOrder = (): OrderRequest => ({
+    userId: pick(userIds),
+    outcome: pick(outcomes),
+    side: 'BUY',
+    type: 'LIMIT',
+    price: randomInt(600, 990) * TICK_SIZE,
+    quantity: randomInt(1, 100) * LOT_SIZE * 10,
+    timeInForce: 'IOC',
+});
+
+// What the flow runs against
+interface Venue {
+    name: string;
+    place(request: OrderRequest): OrderResult;
+    cancel(orderId: string, userId: string): void;
+    state(): PredictionMarketState;
+}
+
+function matcherVenue(): Venue {
+    let state = createInitialState('bench', 'Benchmark market');
+    for (const userId of userIds) {
+        state = initUserBalance(state, userId, DEPOSIT);
+    }
+    return {
+        name: 'matcher',
+        place: request => {
+            const result = matcher.processOrder(state, request);
+            state = result.newState;
+            return result;
+        },
+        cancel: (orderId, userId) => {
+            state = matcher.cancelOrder(state, orderId, userId);
+        },
+        state: () => state,
+    };
+}
+
+function stateManagerVenue(): Venue {
+    const manager = new StateManager('bench', 'Benchmark market');
+    for (const userId of userIds) {
+        manager.deposit(userId, DEPOSIT);
+    }
+    return {
+        name: 'StateManager',
+        place: request => manager.placeOrder(request),
+        cancel: (orderId, userId) => manager.execute({ type: 'CANCEL', orderId, userId }),
+        state: () => manager.getState(),
+    };
+}
+
+function seed(venue: Venue, size: number): void {
+    for (let i = 0; i < size; i++) {
+        const result = venue.place(passiveOrder());
+        if (!result.success) {
+            throw new Error(`Seeding failed: ${result.error}`);
+        }
+    }
+}
+
+function run(venue: Venue, size: number): void {
+    random = createRandom(42);
+    const seedStart = performance.now();
+    seed(venue, size);
+    const seedMs = performance.now() - seedStart;
+
+    const resting = listOrders(venue.state().orderbook).map(o => ({ id: o.id, userId: o.userId }));
+    let fills = 0;
+    let rejected = 0;
+
+    const start = performance.now();
+    for (let i = 0; i < FLOW_ORDERS; i++) {
+        const roll = random();
+        if (roll < 0.2 && resting.length > 0) {
+            // Swap-remove a random resting order and cancel it
+            const slot = Math.floor(random() * resting.length);
+            const { id, userId } = resting[slot];
+            resting[slot] = resting[resting.length - 1];
+            resting.pop();
+            venue.cancel(id, userId);
+            continue;
+        }
+
+        const result = venue.place(roll < 0.4 ? crossingOrder() : passiveOrder());
+        if (!result.success) {
+            rejected++;
+            continue;
+        }
+        fills += result.fills.length;
+        if (result.order && result.remainderOutcome === 'RESTED') {
+            resting.push({ id: result.order.id, userId: result.order.userId });
+        }
+    }
+    const elapsedMs = performance.now() - start;
+
+    console.log(
+        `${venue.name.padEnd(12)} | ` +
+        `${size.toLocaleString('en-US').padStart(9)} resting | ` +
+        `seed ${(seedMs / 1000).toFixed(1)}s | ` +
+        `${FLOW_ORDERS.toLocaleString('en-US')} ops in ${(elapsedMs / 1000).toFixed(2)}s | ` +
+        `${Math.round(FLOW_ORDERS / (elapsedMs / 1000)).toLocaleString('en-US')} ops/sec | ` +
+        `${fills.toLocaleString('en-US')} fills, ${rejected} rejected, ` +
+        `${listOrders(venue.state().orderbook).length.toLocaleString('en-US')} resting after`
+    );
+}
+
+const sizes = process.argv.slice(2).map(Number).filter(n => n > 0);
+for (const size of sizes.length > 0 ? sizes : BOOK_SIZES) {
+    run(matcherVenue(), size);
+    run(stateManagerVenue(), size);
+}